@@ -2,18 +2,60 @@
 // 搜索结果聚合器 - 去重 + 相关度排序
 // ============================================================
 
-import type { SearchResult, EngineResponse, AggregatedResponse, SearchParams } from './types';
+import type { SearchResult, ResultSource, EngineResponse, EngineStatus, AggregatedResponse, SearchParams } from './types';
+import { DEFAULT_RANKING, getSources, rankResults } from './ranking';
+import type { RankingOptions } from './ranking';
+import { canonicalizeUrl, unwrapRedirect } from './url';
+import { DEFAULT_SIMILARITY_THRESHOLD, clusterNearDuplicates } from './similarity';
+import { hasOperators, matchesQuery, parseQuery, queryKeywords } from './query';
+import type { ParsedQuery } from './query';
+import { applyDomainBoosts, applyDomainPolicy, capPerDomain } from './domains';
+import type { DomainPolicy } from './domains';
+import { inDateWindow } from './dates';
+import type { DateWindow } from './dates';
+import { urlFingerprint } from './cursor';
+import { mergeExtras } from './answers';
+
+/**
+ * 聚合选项
+ */
+export interface AggregatorOptions {
+  ranking?: RankingOptions;
+  /** 近似重复判定阈值 */
+  similarityThreshold?: number;
+  domains?: DomainPolicy;
+  /** 时间窗口，发布日期在窗口外的结果被剔除 */
+  dateWindow?: DateWindow;
+  sortBy?: SearchParams['sortBy'];
+  /** 调用方已看过的结果指纹，翻页时剔除 */
+  seen?: Set<string>;
+}
 
 export class SearchAggregator {
   private maxResults: number;
+  private ranking: RankingOptions;
+  private similarityThreshold: number;
+  private domains?: DomainPolicy;
+  private dateWindow?: DateWindow;
+  private sortBy: NonNullable<SearchParams['sortBy']>;
+  private seen?: Set<string>;
+  /** 最近一次聚合中通过过滤、但未进入本页的结果 */
+  private remainder: SearchResult[] = [];
 
-  constructor(maxResults = 20) {
+  constructor(maxResults = 20, options: AggregatorOptions = {}) {
     this.maxResults = maxResults;
+    this.ranking = options.ranking || { strategy: DEFAULT_RANKING, engineWeights: {} };
+    this.similarityThreshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    this.domains = options.domains;
+    this.dateWindow = options.dateWindow;
+    this.sortBy = options.sortBy || 'relevance';
+    this.seen = options.seen?.size ? options.seen : undefined;
   }
 
   aggregate(
     query: string,
-    responses: EngineResponse[]
+    responses: EngineResponse[],
+    parsedQuery: ParsedQuery = parseQuery(query)
   ): AggregatedResponse {
     // 1. 收集所有结果
     const allResults: SearchResult[] = [];
@@ -21,41 +63,96 @@ export class SearchAggregator {
       name: r.engine,
       count: r.results.length,
       latency: r.latency,
-      status: r.error 
-        ? (r.error.includes('Timeout') ? 'timeout' as const : 'error' as const)
-        : 'success' as const,
-      error: r.error
+      status: this.engineStatus(r),
+      error: r.error,
+      hedgeFor: r.hedgeFor,
+      cache: r.cache,
+      attempts: r.attempts
     }));
 
+    // 运算符与域名黑白名单按各自响应过滤：站点与文件类型总是按 URL 检查，其余只检查引擎未执行的部分
+    const operators = this.domains ? applyDomainPolicy(parsedQuery, this.domains) : parsedQuery;
+    const filterOperators = hasOperators(operators);
     for (const response of responses) {
-      allResults.push(...response.results);
+      allResults.push(...(filterOperators
+        ? response.results.filter(r => matchesQuery(r, operators, response.pushedOperators))
+        : response.results));
     }
 
+    // 时间范围在此统一过滤，翻页时剔除已返回的结果
+    const dateWindow = this.dateWindow;
+    const seen = this.seen;
+    const filteredResults = allResults.filter(r =>
+      (!dateWindow || inDateWindow(r, dateWindow)) &&
+      (!seen || !seen.has(urlFingerprint(r.url)))
+    );
+
     // 2. 去重（基于URL）
-    const uniqueResults = this.deduplicateByUrl(allResults);
+    const uniqueResults = this.deduplicateByUrl(filteredResults);
 
     // 3. 计算相关度分数
-    const scoredResults = this.calculateRelevance(uniqueResults, query);
+    const rankedResults = rankResults(uniqueResults, queryKeywords(parsedQuery), this.ranking);
+    const scoredResults = this.domains ? applyDomainBoosts(rankedResults, this.domains.boost) : rankedResults;
 
-    // 4. 排序并取前N条
-    const topResults = scoredResults
-      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
-      .slice(0, this.maxResults);
+    // 4. 按相关度排序并合并近似重复内容，再按 sortBy 排序、限制单域名条数后取前N条
+    const sortedResults = scoredResults.sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+    const clusteredResults = clusterNearDuplicates(sortedResults, this.similarityThreshold);
+    if (this.sortBy === 'date') {
+      clusteredResults.sort((a, b) => this.publishedTime(b) - this.publishedTime(a));
+    }
+    const cappedResults = this.domains?.maxPerDomain
+      ? capPerDomain(clusteredResults, this.domains.maxPerDomain)
+      : clusteredResults;
+    const topResults = cappedResults.slice(0, this.maxResults);
+    this.remainder = clusteredResults.filter(r => !topResults.includes(r));
 
     return {
       query,
       totalResults: topResults.length,
       engines: engineStats,
       results: topResults,
+      ranking: this.ranking.strategy,
+      answers: mergeExtras(responses),
       processedAt: new Date().toISOString()
     };
   }
 
+  /**
+   * 最近一次聚合中有结果未能进入本页的引擎名（含近似重复结果的来源）
+   */
+  enginesWithRemainder(): Set<string> {
+    return new Set(this.remainder.flatMap(r => [
+      ...getSources(r).map(s => s.engine),
+      ...(r.alternates || []).map(a => a.source)
+    ]));
+  }
+
+  /**
+   * 发布时间戳，无日期的结果排在最后
+   */
+  private publishedTime(result: SearchResult): number {
+    const time = result.publishedDate ? Date.parse(result.publishedDate) : NaN;
+    return Number.isNaN(time) ? -Infinity : time;
+  }
+
+  private engineStatus(response: EngineResponse): EngineStatus {
+    if (!response.error) return 'success';
+    if (response.error.includes('Timeout')) return 'timeout';
+    if (response.error.includes('Cancelled')) return 'cancelled';
+    if (response.error.includes('Skipped')) return 'skipped';
+    // 引擎返回反爬验证页面
+    if (response.error.startsWith('Blocked')) return 'blocked';
+    return 'error';
+  }
+
   private deduplicateByUrl(results: SearchResult[]): SearchResult[] {
     const seen = new Map<string, SearchResult>();
     
-    for (const result of results) {
-      const normalizedUrl = this.normalizeUrl(result.url);
+    for (const rawResult of results) {
+      // 展示解开跳转后的真实地址
+      const url = unwrapRedirect(rawResult.url);
+      const result = url === rawResult.url ? rawResult : { ...rawResult, url };
+      const normalizedUrl = canonicalizeUrl(url);
       
       if (!seen.has(normalizedUrl)) {
         seen.set(normalizedUrl, result);
@@ -69,85 +166,31 @@ export class SearchAggregator {
     return Array.from(seen.values());
   }
 
-  private normalizeUrl(url: string): string {
-    try {
-      const parsed = new URL(url);
-      // 移除协议、www、尾部斜杠和常见追踪参数
-      let normalized = parsed.hostname.replace(/^www\./, '') + parsed.pathname;
-      normalized = normalized.replace(/\/$/, '').toLowerCase();
-      return normalized;
-    } catch {
-      return url.toLowerCase();
-    }
-  }
-
   private mergeResults(a: SearchResult, b: SearchResult): SearchResult {
     return {
       title: a.title.length >= b.title.length ? a.title : b.title,
       url: a.url,
       snippet: a.snippet.length >= b.snippet.length ? a.snippet : b.snippet,
-      source: `\({a.source}+\){b.source}`, // 标记多源
+      source: a.source,
+      sources: this.mergeSources(getSources(a), getSources(b)),
       publishedDate: a.publishedDate || b.publishedDate,
-      score: Math.max(a.score || 0, b.score || 0)
+      score: Math.max(a.score || 0, b.score || 0),
+      image: a.image || b.image,
+      content: (a.content?.length || 0) >= (b.content?.length || 0) ? a.content : b.content
     };
   }
 
-  private calculateRelevance(results: SearchResult[], query: string): SearchResult[] {
-    const queryTerms = this.tokenize(query);
-    
-    return results.map(result => {
-      let score = 0;
-      
-      const titleTerms = this.tokenize(result.title);
-      const snippetTerms = this.tokenize(result.snippet);
-      
-      // 标题匹配权重高
-      for (const term of queryTerms) {
-        if (titleTerms.includes(term)) {
-          score += 10;
-        }
-        if (snippetTerms.includes(term)) {
-          score += 3;
-        }
-      }
-      
-      // 完全匹配标题加分
-      if (result.title.toLowerCase().includes(query.toLowerCase())) {
-        score += 20;
-      }
-      
-      // 多源确认加分
-      if (result.source.includes('+')) {
-        score += 15 * (result.source.split('+').length - 1);
-      }
-      
-      // 原始分数加权
-      if (result.score) {
-        score += result.score * 5;
+  /**
+   * 合并来源，同一引擎重复返回时保留排名靠前的一项
+   */
+  private mergeSources(a: ResultSource[], b: ResultSource[]): ResultSource[] {
+    const byEngine = new Map<string, ResultSource>();
+    for (const source of [...a, ...b]) {
+      const existing = byEngine.get(source.engine);
+      if (!existing || source.rank < existing.rank) {
+        byEngine.set(source.engine, source);
       }
-      
-      // 有日期的加分（更可靠）
-      if (result.publishedDate) {
-        score += 3;
-      }
-      
-      // snippet 完整度
-      if (result.snippet.length > 100) {
-        score += 5;
-      }
-      
-      return {
-        ...result,
-        relevanceScore: score
-      };
-    });
-  }
-
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s\u4e00-\u9fff]/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 1);
+    }
+    return Array.from(byEngine.values());
   }
 }
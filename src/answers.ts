@@ -0,0 +1,60 @@
+// ============================================================
+// 答案区 - 合并各引擎返回的答案、相关搜索、图片和要点
+// ============================================================
+
+import type { AnswerSection, EngineResponse } from './types';
+import { canonicalizeUrl } from './url';
+import { foldText } from './tokenizer';
+
+/** 相关搜索与图片的最大保留数 */
+const MAX_RELATED_QUERIES = 10;
+const MAX_IMAGES = 10;
+
+/**
+ * 按响应顺序合并附加信息：相关搜索按归一化文本去重，图片和要点按规范化 URL 去重
+ * 没有任何内容时返回 undefined
+ */
+export function mergeExtras(responses: EngineResponse[]): AnswerSection | undefined {
+  const section: AnswerSection = { answers: [], relatedQueries: [], images: [], highlights: [] };
+  const queries = new Set<string>();
+  const images = new Set<string>();
+  const highlights = new Set<string>();
+
+  for (const { engine, extras } of responses) {
+    if (!extras) continue;
+
+    for (const answer of extras.answers || []) {
+      if (answer.text.trim()) {
+        section.answers.push({ ...answer, engine });
+      }
+    }
+    for (const query of extras.relatedQueries || []) {
+      const key = foldText(query).trim();
+      if (key && !queries.has(key)) {
+        queries.add(key);
+        section.relatedQueries.push(query.trim());
+      }
+    }
+    for (const image of extras.images || []) {
+      const key = canonicalizeUrl(image.url);
+      if (!images.has(key)) {
+        images.add(key);
+        section.images.push({ ...image, engine });
+      }
+    }
+    for (const highlight of extras.highlights || []) {
+      const key = canonicalizeUrl(highlight.url);
+      if (!highlights.has(key) && (highlight.highlights.length > 0 || highlight.summary)) {
+        highlights.add(key);
+        section.highlights.push({ ...highlight, engine });
+      }
+    }
+  }
+
+  section.relatedQueries = section.relatedQueries.slice(0, MAX_RELATED_QUERIES);
+  section.images = section.images.slice(0, MAX_IMAGES);
+
+  const empty = section.answers.length === 0 && section.relatedQueries.length === 0
+    && section.images.length === 0 && section.highlights.length === 0;
+  return empty ? undefined : section;
+}
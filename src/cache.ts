@@ -0,0 +1,147 @@
+// ============================================================
+// 搜索结果缓存 - 基于 Durable Object SQLite 存储，按引擎分片
+// 每个引擎的响应单独缓存，部分命中时只请求未命中的引擎
+// ============================================================
+
+import type { Env, EngineResponse, SearchParams } from './types';
+import type { EngineDescriptor } from './engines/registry';
+
+/**
+ * 缓存模式：use 读写缓存，bypass 不读不写，refresh 不读但写入最新结果
+ */
+export type CacheMode = 'use' | 'bypass' | 'refresh';
+
+/**
+ * 待写入的缓存项
+ */
+export interface CacheEntry {
+  key: string;
+  response: EngineResponse;
+  ttl: number;
+}
+
+/**
+ * 缓存访问接口
+ */
+export interface SearchCache {
+  get(keys: string[]): Promise<Record<string, EngineResponse>>;
+  put(entries: CacheEntry[]): Promise<void>;
+}
+
+/**
+ * 参与缓存键计算的参数，新增会影响结果的参数时需加入此列表
+ */
+const KEY_PARAMS: (keyof SearchParams)[] = ['maxResults', 'page', 'vertical', 'dateRange', 'from', 'to', 'language', 'region', 'safeSearch', 'includeContent', 'contentMaxChars', 'includeAnswers', 'parsedQuery'];
+
+function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * 计算某个引擎在给定参数下的缓存键
+ */
+export async function buildCacheKey(engineId: string, params: SearchParams): Promise<string> {
+  const parts: Record<string, unknown> = { engine: engineId, query: normalizeQuery(params.query) };
+  for (const name of KEY_PARAMS) {
+    if (params[name] !== undefined) {
+      parts[name] = params[name];
+    }
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return engineId + ':' + Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 引擎的缓存有效期（秒）
+ * CACHE_TTL 格式: "default=600,exa=3600"
+ */
+export function getCacheTtl(descriptor: EngineDescriptor, env: Env): number {
+  const overrides: Record<string, number> = {};
+  for (const pair of (env.CACHE_TTL || '').split(',')) {
+    const [name, value] = pair.split('=').map(s => s.trim());
+    const seconds = parseInt(value);
+    if (name && seconds >= 0) {
+      overrides[name.toLowerCase()] = seconds;
+    }
+  }
+  return overrides[descriptor.id] ?? overrides['default'] ?? descriptor.cacheTtl;
+}
+
+/**
+ * Durable Object 内部使用的 SQLite 缓存
+ */
+export class SqliteSearchCache {
+  constructor(private sql: SqlStorage) {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS engine_cache (
+      key TEXT PRIMARY KEY,
+      engine TEXT NOT NULL,
+      response TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`);
+  }
+
+  get(keys: string[]): Record<string, EngineResponse> {
+    const now = Date.now();
+    const hits: Record<string, EngineResponse> = {};
+    for (const key of keys) {
+      const rows = this.sql.exec<{ response: string }>(
+        'SELECT response FROM engine_cache WHERE key = ? AND expires_at > ?', key, now
+      ).toArray();
+      if (rows.length > 0) {
+        hits[key] = JSON.parse(rows[0].response);
+      }
+    }
+    return hits;
+  }
+
+  put(entries: CacheEntry[]): void {
+    const now = Date.now();
+    for (const entry of entries) {
+      if (entry.ttl <= 0) continue;
+      this.sql.exec(
+        'INSERT OR REPLACE INTO engine_cache (key, engine, response, expires_at) VALUES (?, ?, ?, ?)',
+        entry.key, entry.response.engine, JSON.stringify(entry.response), now + entry.ttl * 1000
+      );
+    }
+    this.sql.exec('DELETE FROM engine_cache WHERE expires_at <= ?', now);
+  }
+}
+
+/**
+ * 引擎共享状态所在的 Durable Object，按引擎分片，避免所有请求集中到同一个实例
+ */
+export function engineStateStub(env: Env, engine: string) {
+  return env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName('engine:' + engine.toLowerCase()));
+}
+
+/**
+ * 按缓存键的引擎前缀分组
+ */
+function groupByEngine<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    const engine = key.slice(0, key.indexOf(':'));
+    groups.set(engine, [...(groups.get(engine) || []), item]);
+  }
+  return groups;
+}
+
+/**
+ * 通过 RPC 并发访问各引擎分片中的缓存，Worker 与各会话共用；单个分片不可用时视为未命中
+ */
+export function createSearchCache(env: Env): SearchCache {
+  return {
+    get: async keys => {
+      const groups = groupByEngine(keys, key => key);
+      const hits = await Promise.all([...groups].map(([engine, group]) =>
+        engineStateStub(env, engine).cacheGet(group).catch(() => ({}))
+      ));
+      return Object.assign({}, ...hits);
+    },
+    put: async entries => {
+      const groups = groupByEngine(entries, entry => entry.key);
+      await Promise.all([...groups].map(([engine, group]) => engineStateStub(env, engine).cachePut(group)));
+    }
+  };
+}
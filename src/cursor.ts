@@ -0,0 +1,75 @@
+// ============================================================
+// 翻页游标 - 记录各引擎的下一页与已返回结果，编码为不透明字符串
+// ============================================================
+
+import type { SearchResult } from './types';
+import { canonicalizeUrl } from './url';
+
+/**
+ * 游标内容
+ */
+export interface SearchCursor {
+  /** 发起翻页的查询，续页时必须一致 */
+  query: string;
+  /** 引擎 id -> 下一页页码（从 1 开始），0 表示已无更多结果 */
+  pages: Record<string, number>;
+  /** 已返回结果的 URL 指纹 */
+  seen: string[];
+}
+
+/** 游标中最多保留的 URL 指纹数，超出时丢弃最早的 */
+const MAX_SEEN = 500;
+
+/** 游标中允许的最大页码 */
+export const MAX_PAGE = 100;
+
+/**
+ * 规范化 URL 的 FNV-1a 指纹，8 位十六进制
+ */
+export function urlFingerprint(url: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of canonicalizeUrl(url)) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 本页结果（含被合并的近似重复结果）的指纹
+ */
+export function resultFingerprints(results: SearchResult[]): string[] {
+  return results.flatMap(r => [r.url, ...(r.alternates || []).map(a => a.url)]).map(urlFingerprint);
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  const seen = cursor.seen.slice(-MAX_SEEN);
+  const bytes = new TextEncoder().encode(JSON.stringify({ ...cursor, seen }));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function isValidPage(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_PAGE;
+}
+
+/**
+ * 解码游标，格式不正确（含页码越界、指纹不是字符串）时返回 undefined
+ */
+export function decodeCursor(value: string): SearchCursor | undefined {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const cursor = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+    if (
+      typeof cursor?.query !== 'string' ||
+      !cursor.pages || typeof cursor.pages !== 'object' || Array.isArray(cursor.pages) ||
+      !Object.values(cursor.pages).every(isValidPage) ||
+      !Array.isArray(cursor.seen) || cursor.seen.length > MAX_SEEN ||
+      !cursor.seen.every((s: unknown) => typeof s === 'string')
+    ) {
+      return undefined;
+    }
+    return cursor as SearchCursor;
+  } catch {
+    return undefined;
+  }
+}
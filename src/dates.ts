@@ -0,0 +1,109 @@
+// ============================================================
+// 日期处理 - 发布日期统一为 ISO-8601，时间范围计算与过滤
+// ============================================================
+
+import type { SearchParams, SearchResult } from './types';
+
+/**
+ * 时间窗口，边界均为毫秒时间戳
+ */
+export interface DateWindow {
+  from?: number;
+  to?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_DAYS: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+const RELATIVE_UNITS: Record<string, number> = {
+  second: 1000, sec: 1000, '秒': 1000,
+  minute: 60 * 1000, min: 60 * 1000, '分钟': 60 * 1000,
+  hour: 60 * 60 * 1000, hr: 60 * 60 * 1000, '小时': 60 * 60 * 1000,
+  day: DAY_MS, '天': DAY_MS, '日': DAY_MS,
+  week: 7 * DAY_MS, '周': 7 * DAY_MS, '星期': 7 * DAY_MS,
+  month: 30 * DAY_MS, '个月': 30 * DAY_MS, '月': 30 * DAY_MS,
+  year: 365 * DAY_MS, '年': 365 * DAY_MS
+};
+
+/**
+ * 把各引擎返回的日期统一为 ISO-8601，无法识别时返回 undefined
+ * 支持 ISO/RFC 日期、Unix 时间戳（秒或毫秒）、"2024年3月5日"、"3 days ago"、"5小时前"、"昨天"
+ */
+export function normalizeDate(value: unknown, now = Date.now()): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  let time: number;
+  if (typeof value === 'number') {
+    time = value < 1e12 ? value * 1000 : value;
+  } else if (typeof value !== 'string') {
+    return undefined;
+  } else {
+    time = parseDateString(value.trim(), now);
+  }
+
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+function parseDateString(value: string, now: number): number {
+  if (/^\d{10}$/.test(value)) return Number(value) * 1000;
+  if (/^\d{13}$/.test(value)) return Number(value);
+
+  const cjk = value.match(/^(\d{4})\s*年\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*日)?/);
+  if (cjk) {
+    return Date.UTC(Number(cjk[1]), Number(cjk[2]) - 1, Number(cjk[3] || 1));
+  }
+
+  const lower = value.toLowerCase();
+  if (lower === 'today' || value === '今天') return now;
+  if (lower === 'yesterday' || value === '昨天') return now - DAY_MS;
+  if (value === '前天') return now - 2 * DAY_MS;
+
+  const relative = lower.match(/^(\d+)\s*([a-z]+?|[\u4e00-\u9fff]+?)s?\s*(?:ago|前)$/);
+  if (relative && RELATIVE_UNITS[relative[2]]) {
+    return now - Number(relative[1]) * RELATIVE_UNITS[relative[2]];
+  }
+
+  return Date.parse(value);
+}
+
+/**
+ * 由 dateRange 或自定义 from/to 得到时间窗口，from/to 优先
+ */
+export function getDateWindow(
+  params: Pick<SearchParams, 'dateRange' | 'from' | 'to'>,
+  now = Date.now()
+): DateWindow | undefined {
+  if (params.from || params.to) {
+    return {
+      from: params.from ? Date.parse(params.from) : undefined,
+      to: params.to ? Date.parse(params.to) : undefined
+    };
+  }
+  const days = RANGE_DAYS[params.dateRange || 'all'];
+  return days ? { from: now - days * DAY_MS } : undefined;
+}
+
+/**
+ * 时间窗口的日期部分（YYYY-MM-DD），供只接受日期的 API 使用
+ */
+export function formatDay(time: number | undefined): string | undefined {
+  return time === undefined ? undefined : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * 后置过滤：发布日期落在窗口外的结果剔除，无日期的结果无法判断，予以保留
+ */
+export function inDateWindow(result: SearchResult, window: DateWindow): boolean {
+  if (!result.publishedDate) return true;
+  const time = Date.parse(result.publishedDate);
+  if (Number.isNaN(time)) return true;
+  if (window.from !== undefined && time < window.from) return false;
+  if (window.to !== undefined && time > window.to) return false;
+  return true;
+}
@@ -0,0 +1,144 @@
+// ============================================================
+// 域名策略 - 白名单/黑名单、按域名加权、单域名结果数上限
+// ============================================================
+
+import type { Env, SearchParams, SearchResult } from './types';
+import { matchesDomain, normalizeDomain } from './query';
+import type { ParsedQuery } from './query';
+
+/**
+ * 合并部署默认值与请求参数后的域名策略
+ */
+export interface DomainPolicy {
+  include: string[];
+  exclude: string[];
+  /** 域名 -> 分数倍数，大于 1 提升，小于 1 降低 */
+  boost: Record<string, number>;
+  /** 单个域名最多保留的结果数 */
+  maxPerDomain?: number;
+}
+
+function parseDomainList(value: string | undefined): string[] {
+  return (value || '').split(',').map(s => normalizeDomain(s.trim())).filter(Boolean);
+}
+
+/**
+ * 解析 "docs.python.org=2,csdn.net=0.5" 形式的加权配置
+ */
+function parseDomainBoosts(value: string | undefined): Record<string, number> {
+  const boosts: Record<string, number> = {};
+  for (const pair of (value || '').split(',')) {
+    const [domain, raw] = pair.split('=').map(s => s.trim());
+    const weight = Number(raw);
+    if (domain && Number.isFinite(weight) && weight >= 0) {
+      boosts[normalizeDomain(domain)] = weight;
+    }
+  }
+  return boosts;
+}
+
+/**
+ * 请求的 includeDomains 覆盖部署默认值；excludeDomains 与部署黑名单合并
+ */
+export function getDomainPolicy(
+  env: Env,
+  params: Pick<SearchParams, 'includeDomains' | 'excludeDomains' | 'boostDomains' | 'maxPerDomain'>
+): DomainPolicy {
+  const include = params.includeDomains?.length ? params.includeDomains : parseDomainList(env.INCLUDE_DOMAINS);
+  const exclude = [...parseDomainList(env.EXCLUDE_DOMAINS), ...(params.excludeDomains || [])];
+  const envCap = parseInt(env.MAX_PER_DOMAIN || '');
+  return {
+    include: Array.from(new Set(include.map(normalizeDomain))),
+    exclude: Array.from(new Set(exclude.map(normalizeDomain))),
+    boost: { ...parseDomainBoosts(env.BOOST_DOMAINS), ...params.boostDomains },
+    maxPerDomain: params.maxPerDomain ?? (envCap > 0 ? envCap : undefined)
+  };
+}
+
+/**
+ * 站点 a 是否落在站点 b 的范围内（相同、子域名或路径前缀）
+ */
+function withinSite(a: string, b: string): boolean {
+  try {
+    return matchesDomain(new URL('https://' + a), b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 查询的 site: 与白名单取交集，保留两者中范围较窄的一方
+ */
+function intersectSites(sites: string[], include: string[]): string[] {
+  const result = new Set<string>();
+  for (const site of sites) {
+    for (const allowed of include) {
+      if (withinSite(site, allowed)) {
+        result.add(site);
+      } else if (withinSite(allowed, site)) {
+        result.add(allowed);
+      }
+    }
+  }
+  return Array.from(result);
+}
+
+/**
+ * 查询的 site: 是否全部落在白名单之外，此时任何结果都不满足，不必请求引擎
+ */
+export function sitesOutsidePolicy(parsed: ParsedQuery, policy: DomainPolicy): boolean {
+  return parsed.sites.length > 0 && policy.include.length > 0
+    && intersectSites(parsed.sites, policy.include).length === 0;
+}
+
+/**
+ * 白名单/黑名单并入查询的站点运算符，从而与 site: 一样下推到引擎并由聚合器过滤
+ * 查询已有 site: 时白名单只收窄范围；交集为空时保留 site:，由调用方通过 sitesOutsidePolicy 跳过请求
+ */
+export function applyDomainPolicy(parsed: ParsedQuery, policy: DomainPolicy): ParsedQuery {
+  let sites = parsed.sites.length > 0 ? parsed.sites : policy.include;
+  if (parsed.sites.length > 0 && policy.include.length > 0) {
+    const narrowed = intersectSites(parsed.sites, policy.include);
+    sites = narrowed.length > 0 ? narrowed : parsed.sites;
+  }
+  return {
+    ...parsed,
+    sites: Array.from(new Set(sites)),
+    excludeSites: Array.from(new Set([...parsed.excludeSites, ...policy.exclude]))
+  };
+}
+
+function parseUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 按加权域名调整 relevanceScore，多条规则命中时取最具体（最长）的一条
+ */
+export function applyDomainBoosts(results: SearchResult[], boost: Record<string, number>): SearchResult[] {
+  const domains = Object.keys(boost).sort((a, b) => b.length - a.length);
+  if (domains.length === 0) return results;
+
+  return results.map(result => {
+    const url = parseUrl(result.url);
+    const domain = url && domains.find(d => matchesDomain(url, d));
+    return domain ? { ...result, relevanceScore: (result.relevanceScore || 0) * boost[domain] } : result;
+  });
+}
+
+/**
+ * 每个域名最多保留 max 条，results 需已按相关度排序
+ */
+export function capPerDomain(results: SearchResult[], max: number): SearchResult[] {
+  const counts = new Map<string, number>();
+  return results.filter(result => {
+    const host = parseUrl(result.url)?.hostname.toLowerCase().replace(/^www\./, '') ?? result.url;
+    const count = counts.get(host) || 0;
+    counts.set(host, count + 1);
+    return count < max;
+  });
+}
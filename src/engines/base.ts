@@ -2,12 +2,80 @@
 // 搜索引擎基类
 // ============================================================
 
-import type { SearchParams, SearchResult, EngineResponse, Env } from '../types';
+import type { SearchParams, SearchResult, EngineResponse, EngineExtras, EngineOutcome, Env } from '../types';
+import { ALL_OPERATORS, formatQuery, parseQuery } from '../query';
+import { getDateWindow, normalizeDate } from '../dates';
+import type { DateWindow } from '../dates';
+import { resolveLocale } from '../locale';
+import type { ResolvedLocale } from '../locale';
+import type { ParsedQuery, QueryOperator } from '../query';
+import { DEFAULT_CONTENT_CHARS } from '../enrich';
+
+/**
+ * 重试策略
+ */
+export interface RetryPolicy {
+  /** 最多请求次数（含首次） */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** 需要重试的 HTTP 状态码 */
+  retryOn: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 4000,
+  retryOn: [429, 500, 502, 503, 504]
+};
+
+/**
+ * 可被中止的等待
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(signal.reason);
+    };
+    const id = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
 export abstract class SearchEngine {
   protected name: string;
   protected timeout: number;
   protected env: Env;
+  /** 子类可按各自 API 的限流特点覆盖 */
+  protected retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  /** search 过程中由子类填入的附加信息，每次 execute 前清空 */
+  protected extras?: EngineExtras;
+  /** 本次请求中写进查询字符串、由引擎自身执行的运算符 */
+  private pushedOperators?: readonly QueryOperator[];
+  private attempts = 0;
+  private deadline = 0;
 
   constructor(name: string, env: Env, timeout = 8000) {
     this.name = name;
@@ -15,38 +83,147 @@ export abstract class SearchEngine {
     this.timeout = timeout;
   }
 
-  abstract search(params: SearchParams): Promise<SearchResult[]>;
+  getName(): string {
+    return this.name;
+  }
+
+  /**
+   * 结构化查询，未预先解析时现场解析
+   */
+  protected getQuery(params: SearchParams): ParsedQuery {
+    return params.parsedQuery ?? parseQuery(params.query);
+  }
+
+  /**
+   * 按引擎支持的运算符生成查询字符串，并记录这些运算符已下推到引擎，聚合时不再按文本过滤
+   * 省略 operators 表示支持全部运算符
+   */
+  protected formatQuery(parsed: ParsedQuery, operators?: readonly QueryOperator[]): string {
+    const query = formatQuery(parsed, operators);
+    this.pushedOperators = operators ?? ALL_OPERATORS;
+    return query;
+  }
 
-  async execute(params: SearchParams): Promise<EngineResponse> {
+  /**
+   * 执行搜索，实现方必须把 signal 传给每一个 fetch
+   */
+  abstract search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]>;
+
+  /**
+   * 带超时执行搜索；signal 为调用方的取消信号，超时或取消都会中止所有外部请求
+   * onOutcome 接收本引擎自身的成功/失败，供健康度统计使用
+   */
+  async execute(
+    params: SearchParams,
+    signal?: AbortSignal,
+    onOutcome?: (outcome: EngineOutcome) => void
+  ): Promise<EngineResponse> {
     const startTime = Date.now();
+    this.attempts = 0;
+    this.extras = undefined;
+    this.pushedOperators = undefined;
+    this.deadline = startTime + this.timeout;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort(new Error(`Timeout after ${this.timeout}ms`));
+    }, this.timeout);
+    // 沿用调用方的中止原因（如整体截止时间），否则视为取消
+    const onCancel = () => {
+      const reason = signal?.reason;
+      controller.abort(reason instanceof Error && reason.name !== 'AbortError' ? reason : new Error('Cancelled'));
+    };
+
+    if (signal?.aborted) {
+      onCancel();
+    } else {
+      signal?.addEventListener('abort', onCancel);
+    }
     
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-      
       const results = await Promise.race([
-        this.search(params),
+        this.search(params, controller.signal),
         new Promise<SearchResult[]>((_, reject) => {
-          controller.signal.addEventListener('abort', () => {
-            reject(new Error(`Timeout after ${this.timeout}ms`));
-          });
+          if (controller.signal.aborted) {
+            reject(controller.signal.reason);
+          }
+          controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
         })
       ]);
       
-      clearTimeout(timeoutId);
-      
+      const latency = Date.now() - startTime;
+      // 翻页时排名接着前几页计算
+      const offset = ((params.page || 1) - 1) * (params.maxResults || 10);
+      onOutcome?.({ engine: this.name, success: true, latency, at: startTime });
       return {
         engine: this.name,
-        results: results.map(r => ({ ...r, source: this.name })),
-        latency: Date.now() - startTime
+        results: results.map((r, i) => ({
+          ...r,
+          publishedDate: normalizeDate(r.publishedDate),
+          source: this.name,
+          sources: [{ engine: this.name, rank: offset + i + 1, score: r.score, snippet: r.snippet }]
+        })),
+        latency,
+        attempts: this.attempts,
+        extras: this.extras,
+        pushedOperators: this.pushedOperators && [...this.pushedOperators]
       };
     } catch (error) {
+      // fetch 被中止时抛出的是 AbortError，统一换成中止原因
+      const reason = controller.signal.aborted ? controller.signal.reason : error;
+      const message = reason instanceof Error ? reason.message : 'Unknown error';
+      const latency = Date.now() - startTime;
+      // 调用方中止（整体截止、提前返回、取消）不算引擎失败
+      if (!signal?.aborted) {
+        onOutcome?.({ engine: this.name, success: false, latency, error: message, at: startTime });
+      }
       return {
         engine: this.name,
         results: [],
-        error: error instanceof Error ? error.message : 'Unknown error',
-        latency: Date.now() - startTime
+        error: message,
+        latency,
+        attempts: this.attempts
       };
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  /**
+   * 按重试策略发起请求：指数退避加抖动，遵循 Retry-After，且不超出剩余超时预算
+   * 返回最后一次的响应，由调用方判断 response.ok
+   */
+  protected async fetchWithRetry(url: string, init: RequestInit & { signal: AbortSignal }): Promise<Response> {
+    const policy = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      this.attempts++;
+      let response: Response | undefined;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        // 被中止或已无重试次数时直接抛出，网络错误则重试
+        if (init.signal.aborted || attempt >= policy.maxAttempts) {
+          throw error;
+        }
+      }
+
+      if (response && (response.ok || !policy.retryOn.includes(response.status) || attempt >= policy.maxAttempts)) {
+        return response;
+      }
+
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+      const jittered = backoff / 2 + Math.random() * backoff / 2;
+      const delay = Math.max(jittered, parseRetryAfter(response?.headers.get('Retry-After') ?? null) ?? 0);
+
+      // 等待后已来不及完成请求时，不再重试
+      if (Date.now() + delay >= this.deadline) {
+        if (response) return response;
+        throw new Error(`${this.name} request failed after ${attempt} attempts`);
+      }
+
+      await response?.body?.cancel();
+      await sleep(delay, init.signal);
     }
   }
 
@@ -60,4 +237,26 @@ export abstract class SearchEngine {
     };
     return mapping[dateRange || 'all'] || '';
   }
+
+  /**
+   * 本次请求的语言与地区
+   */
+  protected getLocale(params: SearchParams): ResolvedLocale | undefined {
+    return resolveLocale(params);
+  }
+
+  /**
+   * 本次请求的时间窗口，未限定时间时为 undefined
+   */
+  protected getDateWindow(params: SearchParams): DateWindow | undefined {
+    return getDateWindow(params);
+  }
+
+  /**
+   * 需要引擎返回正文时的字符预算，不需要正文时为 undefined
+   */
+  protected getContentBudget(params: SearchParams): number | undefined {
+    if (!params.includeContent || params.includeContent === 'none') return undefined;
+    return params.contentMaxChars ?? DEFAULT_CONTENT_CHARS;
+  }
 }
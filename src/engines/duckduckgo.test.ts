@@ -0,0 +1,127 @@
+/// <reference types="vite/client" />
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from '../types';
+import { DuckDuckGoEngine, parseHtmlPage, parseLitePage } from './duckduckgo';
+import htmlPage from './__fixtures__/duckduckgo-html.html?raw';
+import litePage from './__fixtures__/duckduckgo-lite.html?raw';
+import anomalyPage from './__fixtures__/duckduckgo-anomaly.html?raw';
+import noResultsPage from './__fixtures__/duckduckgo-no-results.html?raw';
+
+/** html 版与 lite 版对同一查询应解析出相同的结果 */
+const EXPECTED = [
+  {
+    title: 'Rust Programming Language',
+    url: 'https://www.rust-lang.org/',
+    snippet: 'A language empowering everyone to build reliable & efficient software. It\'s fast and memory-efficient.'
+  },
+  {
+    title: 'The Rust Programming Language - The Rust Book',
+    url: 'https://doc.rust-lang.org/book/',
+    snippet: ''
+  },
+  {
+    title: 'Rust (programming language) & its history - Wikipedia',
+    url: 'https://en.wikipedia.org/wiki/Rust_(programming_language)',
+    snippet: 'Rust is a general-purpose programming language emphasizing performance, type safety, and concurrency.'
+  }
+];
+
+describe.each([
+  ['parseHtmlPage', parseHtmlPage, htmlPage],
+  ['parseLitePage', parseLitePage, litePage]
+])('%s', (_name, parse, fixture) => {
+  const page = parse(fixture);
+
+  it('按结果块解析标题、链接和摘要，跳过广告', () => {
+    expect(page.results).toEqual(EXPECTED);
+    expect(page.blocked).toBe(false);
+    expect(page.noResults).toBe(false);
+  });
+
+  it('标题中的 <b> 只保留文本', () => {
+    expect(page.results[0].title).toBe('Rust Programming Language');
+  });
+
+  it('解码 &amp; 和 &#x27;', () => {
+    expect(page.results[0].snippet).toContain('reliable & efficient');
+    expect(page.results[0].snippet).toContain('It\'s fast');
+    expect(page.results[2].title).toContain('& its history');
+  });
+
+  it('缺少摘要的结果不会占用下一条的摘要', () => {
+    expect(page.results[1].snippet).toBe('');
+    expect(page.results[2].snippet).toMatch(/^Rust is a general-purpose/);
+  });
+
+  it('识别反爬验证页面', () => {
+    const blocked = parse(anomalyPage);
+    expect(blocked.blocked).toBe(true);
+    expect(blocked.results).toEqual([]);
+  });
+});
+
+describe('无结果页面', () => {
+  it('html 版', () => {
+    expect(parseHtmlPage(noResultsPage)).toEqual({ results: [], blocked: false, noResults: true });
+  });
+
+  it('lite 版', () => {
+    const page = parseLitePage('<html><body><table><tr><td>No results.</td></tr></table></body></html>');
+    expect(page).toEqual({ results: [], blocked: false, noResults: true });
+  });
+
+  it('无法识别的页面不算无结果', () => {
+    expect(parseHtmlPage('<html><body><div>Something went wrong</div></body></html>').noResults).toBe(false);
+    expect(parseLitePage('<html><body></body></html>').noResults).toBe(false);
+  });
+});
+
+describe('DuckDuckGoEngine', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** 按请求的端点返回不同页面，并记录请求过的端点 */
+  function stubFetch(pages: { html: Response; lite?: Response }): string[] {
+    const requested: string[] = [];
+    vi.stubGlobal('fetch', async (url: string) => {
+      const lite = url.startsWith('https://lite.duckduckgo.com/');
+      requested.push(lite ? 'lite' : 'html');
+      return (lite ? pages.lite : pages.html) ?? new Response('', { status: 500 });
+    });
+    return requested;
+  }
+
+  const search = () => new DuckDuckGoEngine({} as Env, 5000).execute({ query: 'rust programming', maxResults: 10 });
+
+  it('html 版正常时不请求 lite 版', async () => {
+    const requested = stubFetch({ html: new Response(htmlPage) });
+    const response = await search();
+    expect(response.error).toBeUndefined();
+    expect(response.results.map(r => r.url)).toEqual(EXPECTED.map(r => r.url));
+    expect(requested).toEqual(['html']);
+  });
+
+  it('html 版返回验证页面时改用 lite 版', async () => {
+    const requested = stubFetch({ html: new Response(anomalyPage), lite: new Response(litePage) });
+    const response = await search();
+    expect(response.error).toBeUndefined();
+    expect(response.results.map(r => r.title)).toEqual(EXPECTED.map(r => r.title));
+    expect(requested).toEqual(['html', 'lite']);
+  });
+
+  it('两个版本都被拦截时报告 Blocked', async () => {
+    stubFetch({ html: new Response(anomalyPage, { status: 202 }), lite: new Response(anomalyPage) });
+    const response = await search();
+    expect(response.results).toEqual([]);
+    expect(response.error).toMatch(/^Blocked: /);
+  });
+
+  it('明确的无结果页面返回空结果而不是错误', async () => {
+    const requested = stubFetch({ html: new Response(noResultsPage) });
+    const response = await search();
+    expect(response.error).toBeUndefined();
+    expect(response.results).toEqual([]);
+    expect(requested).toEqual(['html']);
+  });
+});
@@ -1,82 +1,177 @@
-import type { Env, SearchParams, SearchResult, EngineResponse } from '../types';
-import { SearchEngine } from './base';
+import type { Env, SearchParams, SearchResult } from '../types';
+import { SearchEngine, DEFAULT_RETRY_POLICY } from './base';
+import { unwrapRedirect } from '../url';
+import { parseHtml, textContent, findAll, findFirst, hasClass } from '../html';
+import type { HtmlElement } from '../html';
+import { formatDay } from '../dates';
+import { toAcceptLanguage, toDuckDuckGoRegion } from '../locale';
 
-export class DuckDuckGoEngine extends SearchEngine {
-  readonly name = 'DuckDuckGo';
-
-  async search(params: SearchParams): Promise<SearchResult[]> {
-    const query = encodeURIComponent(params.query);
-    const url = 'https://html.duckduckgo.com/html/?q=' + query;
-    
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5'
-      }
+const HTML_ENDPOINT = 'https://html.duckduckgo.com/html/';
+const LITE_ENDPOINT = 'https://lite.duckduckgo.com/lite/';
+
+/**
+ * 页面解析结果
+ */
+export interface DuckDuckGoPage {
+  results: { title: string; url: string; snippet: string }[];
+  /** 反爬验证（anomaly/CAPTCHA）页面 */
+  blocked: boolean;
+  /** 明确的无结果页面，区别于无法识别的页面结构 */
+  noResults: boolean;
+}
+
+function cleanText(el: HtmlElement | undefined): string {
+  return el ? textContent(el).replace(/\s+/g, ' ').trim() : '';
+}
+
+/** 广告链接经由 duckduckgo.com/y.js 跳转 */
+function isAdLink(href: string): boolean {
+  return /duckduckgo\.com\/y\.js/.test(href);
+}
+
+function isBlocked(root: HtmlElement): boolean {
+  return !!findFirst(root, e =>
+    e.attrs.id === 'challenge-form'
+    || hasClass(e, 'anomaly-modal')
+    || hasClass(e, 'anomaly-modal__modal')
+  ) || /bots use DuckDuckGo too/i.test(cleanText(root));
+}
+
+/**
+ * 解析 html.duckduckgo.com：每个 .result 块作为一个整体取标题、链接和摘要
+ */
+export function parseHtmlPage(html: string): DuckDuckGoPage {
+  const root = parseHtml(html);
+  const results: DuckDuckGoPage['results'] = [];
+
+  for (const block of findAll(root, e => hasClass(e, 'result') && !hasClass(e, 'result--ad'))) {
+    const link = findFirst(block, e => hasClass(e, 'result__a'));
+    const href = link?.attrs.href || '';
+    const title = cleanText(link);
+    if (!href || !title || isAdLink(href)) continue;
+    results.push({
+      title,
+      url: unwrapRedirect(href),
+      snippet: cleanText(findFirst(block, e => hasClass(e, 'result__snippet')))
     });
+  }
 
-    if (!response.ok) {
-      throw new Error('DuckDuckGo request failed: ' + response.status);
+  return {
+    results,
+    blocked: isBlocked(root),
+    noResults: !!findFirst(root, e => hasClass(e, 'no-results'))
+  };
+}
+
+/**
+ * 解析 lite.duckduckgo.com：结果是表格中连续的行，链接行之后是摘要行
+ * 逐行扫描，摘要只归属于它前面的链接行，缺少摘要不会错位
+ */
+export function parseLitePage(html: string): DuckDuckGoPage {
+  const root = parseHtml(html);
+  const results: DuckDuckGoPage['results'] = [];
+  let current: DuckDuckGoPage['results'][number] | undefined;
+
+  for (const row of findAll(root, e => e.tag === 'tr')) {
+    const link = findFirst(row, e => e.tag === 'a' && hasClass(e, 'result-link'));
+    if (link) {
+      const href = link.attrs.href || '';
+      const title = cleanText(link);
+      const sponsored = hasClass(row, 'result-sponsored') || isAdLink(href);
+      current = href && title && !sponsored ? { title, url: unwrapRedirect(href), snippet: '' } : undefined;
+      if (current) results.push(current);
+      continue;
     }
+    const snippet = findFirst(row, e => hasClass(e, 'result-snippet'));
+    if (snippet && current && !current.snippet) {
+      current.snippet = cleanText(snippet);
+    }
+  }
 
-    const html = await response.text();
-    const results: SearchResult[] = [];
-    
-    // 解析搜索结果
-    const resultPattern = /<a class="result__a" href="([^"]+)"[^>]*>([^<]+)<\/a>/gi;
-    const snippetPattern = /<a class="result__snippet"[^>]*>([^<]+)<\/a>/gi;
-    
-    let match;
-    const urls: string[] = [];
-    const titles: string[] = [];
-    const snippets: string[] = [];
-    
-    // 提取URL和标题
-    while ((match = resultPattern.exec(html)) !== null) {
-      let href = match[1];
-      // DuckDuckGo 使用重定向链接，需要解析真实URL
-      if (href.indexOf('uddg=') > -1) {
-        const uddgMatch = href.match(/uddg=([^&]+)/);
-        if (uddgMatch) {
-          href = decodeURIComponent(uddgMatch[1]);
-        }
-      }
-      urls.push(href);
-      titles.push(match[2].replace(/<[^>]+>/g, '').trim());
+  return {
+    results,
+    blocked: isBlocked(root),
+    noResults: results.length === 0 && /no (more )?results/i.test(cleanText(root))
+  };
+}
+
+export class DuckDuckGoEngine extends SearchEngine {
+  // 429 通常意味着被限流拦截，重试无益
+  protected retryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 2, retryOn: [500, 502, 503, 504] };
+
+  constructor(env: Env, timeout?: number) {
+    super('DuckDuckGo', env, timeout);
+  }
+
+  async search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]> {
+    // DuckDuckGo 原生支持全部运算符
+    const query = new URLSearchParams({ q: this.formatQuery(this.getQuery(params)) });
+
+    // 时间过滤：df=d/w/m/y，自定义范围为 df=YYYY-MM-DD..YYYY-MM-DD
+    const window = this.getDateWindow(params);
+    const df = params.from || params.to
+      ? (formatDay(window?.from) || '1990-01-01') + '..' + (formatDay(window?.to) || formatDay(Date.now()))
+      : this.mapDateRange(params.dateRange);
+    if (df) {
+      query.set('df', df);
     }
-    
-    // 提取摘要
-    while ((match = snippetPattern.exec(html)) !== null) {
-      snippets.push(match[1].replace(/<[^>]+>/g, '').trim());
+
+    // 翻页：s 为起始偏移，与每页条数对齐以免漏掉结果
+    if (params.page && params.page > 1) {
+      const offset = (params.page - 1) * (params.maxResults || 10);
+      query.set('s', String(offset));
+      query.set('dc', String(offset + 1));
     }
-    
-    // 组合结果
+
+    // 地区：kl=cn-zh 等
+    const locale = this.getLocale(params);
+    const kl = locale && toDuckDuckGoRegion(locale);
+    if (kl) {
+      query.set('kl', kl);
+    }
+
+    const headers = {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': toAcceptLanguage(locale)
+    };
     const maxResults = params.maxResults || 10;
-    for (let i = 0; i < Math.min(urls.length, maxResults); i++) {
-      if (urls[i] && titles[i]) {
-        results.push({
-          title: titles[i],
-          url: urls[i],
-          snippet: snippets[i] || '',
-          source: this.name
-        });
+
+    // 先请求 html 版；被拦截、限流或页面结构无法识别时改用 lite 版
+    let blocked = false;
+    const response = await this.fetchWithRetry(HTML_ENDPOINT + '?' + query, { signal, headers });
+    if (response.ok && response.status !== 202) {
+      const page = parseHtmlPage(await response.text());
+      if (page.results.length > 0 || (page.noResults && !page.blocked)) {
+        return this.toResults(page, maxResults);
+      }
+      blocked = page.blocked;
+    } else {
+      await response.body?.cancel();
+      // 202 是 DuckDuckGo 返回验证页面时的状态码
+      blocked = [202, 403, 429].includes(response.status);
+      if (!blocked) {
+        throw new Error('DuckDuckGo request failed: ' + response.status);
       }
     }
-    
-    // 如果正则没匹配到，尝试备用方案
-    if (results.length === 0) {
-      const linkPattern = /<a[^>]+href="(https?:\/\/[^"]+)"[^>]*class="[^"]*result[^"]*"[^>]*>([^<]+)<\/a>/gi;
-      while ((match = linkPattern.exec(html)) !== null && results.length < maxResults) {
-        results.push({
-          title: match[2].replace(/<[^>]+>/g, '').trim(),
-          url: match[1],
-          snippet: '',
-          source: this.name
-        });
+
+    const lite = await this.fetchWithRetry(LITE_ENDPOINT + '?' + query, { signal, headers });
+    if (!lite.ok || lite.status === 202) {
+      await lite.body?.cancel();
+      if (blocked || [202, 403, 429].includes(lite.status)) {
+        throw new Error('Blocked: DuckDuckGo anomaly/CAPTCHA challenge');
       }
+      throw new Error('DuckDuckGo lite request failed: ' + lite.status);
     }
+    const page = parseLitePage(await lite.text());
+    // html 版已被拦截而 lite 版也没有可识别的结果时，同样视为被拦截
+    if (page.results.length === 0 && (page.blocked || (blocked && !page.noResults))) {
+      throw new Error('Blocked: DuckDuckGo anomaly/CAPTCHA challenge');
+    }
+    return this.toResults(page, maxResults);
+  }
 
-    return results;
+  private toResults(page: DuckDuckGoPage, maxResults: number): SearchResult[] {
+    return page.results.slice(0, maxResults).map(r => ({ ...r, source: this.name }));
   }
 }
@@ -3,7 +3,19 @@
 // ============================================================
 
 import { SearchEngine } from './base';
-import type { SearchParams, SearchResult, Env } from '../types';
+import type { SearchParams, SearchResult, SearchVertical, Env } from '../types';
+import { truncateContent } from '../reader';
+
+const EXA_CATEGORIES: Partial<Record<SearchVertical, string>> = {
+  news: 'news',
+  academic: 'research paper',
+  code: 'github'
+};
+
+const EXA_MAX_RESULTS = 100;
+
+/** 摘要长度，正文单独放在 content 中 */
+const EXA_SNIPPET_CHARS = 500;
 
 export class ExaEngine extends SearchEngine {
   private apiKey: string;
@@ -13,43 +25,69 @@ export class ExaEngine extends SearchEngine {
     this.apiKey = env.EXA_API_KEY || '';
   }
 
-  isAvailable(): boolean {
-    return !!this.apiKey;
-  }
-
-  async search(params: SearchParams): Promise<SearchResult[]> {
+  async search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]> {
     if (!this.apiKey) {
       throw new Error('EXA_API_KEY not configured');
     }
 
-    const { query, maxResults = 10, dateRange } = params;
+    const { maxResults = 10, page = 1 } = params;
+    const parsed = this.getQuery(params);
+    // Exa 没有偏移参数，翻页时多取几页再截掉前面的部分
+    const offset = (page - 1) * maxResults;
+    if (offset >= EXA_MAX_RESULTS) {
+      return [];
+    }
     
+    // 需要正文时按预算取全文，摘要仍截取开头部分
+    const query = this.formatQuery(parsed, ['phrase']);
+    const contentBudget = this.getContentBudget(params);
+    const contents: Record<string, unknown> = {
+      text: { maxCharacters: Math.max(EXA_SNIPPET_CHARS, contentBudget || 0) }
+    };
+    // 附加信息：每条结果的要点摘录与摘要
+    if (params.includeAnswers) {
+      contents.highlights = { numSentences: 2, highlightsPerUrl: 2 };
+      contents.summary = { query };
+    }
+
     const body: Record<string, unknown> = {
       query,
-      numResults: maxResults,
+      numResults: Math.min(EXA_MAX_RESULTS, offset + maxResults),
       type: 'auto',
-      contents: {
-        text: { maxCharacters: 500 }
-      }
+      contents
     };
 
+    // 搜索类别
+    const category = params.vertical && EXA_CATEGORIES[params.vertical];
+    if (category) {
+      body.category = category;
+    }
+
+    // 地区
+    const region = this.getLocale(params)?.region;
+    if (region) {
+      body.userLocation = region;
+    }
+
+    // 站点过滤
+    if (parsed.sites.length > 0) {
+      body.includeDomains = parsed.sites;
+    }
+    if (parsed.excludeSites.length > 0) {
+      body.excludeDomains = parsed.excludeSites;
+    }
+
     // 日期过滤
-    if (dateRange && dateRange !== 'all') {
-      const now = new Date();
-      const dateMap: Record<string, number> = {
-        day: 1,
-        week: 7,
-        month: 30,
-        year: 365
-      };
-      const daysAgo = dateMap[dateRange] || 0;
-      if (daysAgo > 0) {
-        const startDate = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
-        body.startPublishedDate = startDate.toISOString();
-      }
+    const window = this.getDateWindow(params);
+    if (window?.from !== undefined) {
+      body.startPublishedDate = new Date(window.from).toISOString();
+    }
+    if (window?.to !== undefined) {
+      body.endPublishedDate = new Date(window.to).toISOString();
     }
 
-    const response = await fetch('https://api.exa.ai/search', {
+    const response = await this.fetchWithRetry('https://api.exa.ai/search', {
+      signal,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -60,7 +98,7 @@ export class ExaEngine extends SearchEngine {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Exa API error: \({response.status} - \){errorText}`);
+      throw new Error(`Exa API error: ${response.status} - ${errorText}`);
     }
 
     const data = await response.json() as {
@@ -70,16 +108,28 @@ export class ExaEngine extends SearchEngine {
         text?: string;
         publishedDate?: string;
         score?: number;
+        highlights?: string[];
+        summary?: string;
       }>;
     };
 
-    return (data.results || []).map(r => ({
+    const results = (data.results || []).slice(offset);
+    if (params.includeAnswers) {
+      this.extras = {
+        highlights: results
+          .filter(r => r.url && (r.highlights?.length || r.summary))
+          .map(r => ({ url: r.url!, title: r.title, highlights: r.highlights || [], summary: r.summary }))
+      };
+    }
+
+    return results.map(r => ({
       title: r.title || '',
       url: r.url || '',
-      snippet: r.text || '',
+      snippet: (r.text || '').substring(0, EXA_SNIPPET_CHARS),
       source: this.name,
       publishedDate: r.publishedDate,
-      score: r.score
+      score: r.score,
+      content: contentBudget && r.text ? truncateContent(r.text, contentBudget) : undefined
     }));
   }
 }
@@ -4,6 +4,7 @@
 
 import { SearchEngine } from './base';
 import type { SearchParams, SearchResult, Env } from '../types';
+import { truncateContent } from '../reader';
 
 export class JinaEngine extends SearchEngine {
   private apiKey: string;
@@ -13,30 +14,35 @@ export class JinaEngine extends SearchEngine {
     this.apiKey = env.JINA_API_KEY || '';
   }
 
-  isAvailable(): boolean {
-    return !!this.apiKey;
-  }
-
-  async search(params: SearchParams): Promise<SearchResult[]> {
+  async search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]> {
     if (!this.apiKey) {
       throw new Error('JINA_API_KEY not configured');
     }
 
-    const { query, maxResults = 10 } = params;
+    const { maxResults = 10 } = params;
+    const parsed = this.getQuery(params);
+    const query = this.formatQuery(parsed, ['phrase']);
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'Accept': 'application/json',
+      'X-Retain-Images': 'none'
+    };
+    // X-Site 只支持单个站点，多个站点交给后置过滤
+    if (parsed.sites.length === 1) {
+      headers['X-Site'] = parsed.sites[0];
+    }
 
     // Jina Search API (s.jina.ai)
-    const response = await fetch(`https://s.jina.ai/${encodeURIComponent(query)}`, {
+    const response = await this.fetchWithRetry(`https://s.jina.ai/${encodeURIComponent(query)}`, {
+      signal,
       method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Accept': 'application/json',
-        'X-Retain-Images': 'none'
-      }
+      headers
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Jina API error: \({response.status} - \){errorText}`);
+      throw new Error(`Jina API error: ${response.status} - ${errorText}`);
     }
 
     const data = await response.json() as {
@@ -49,12 +55,14 @@ export class JinaEngine extends SearchEngine {
       }>;
     };
 
+    const contentBudget = this.getContentBudget(params);
     return (data.data || []).slice(0, maxResults).map(r => ({
       title: r.title || '',
       url: r.url || '',
       snippet: r.description || r.content?.substring(0, 300) || '',
       source: this.name,
-      publishedDate: r.publishedTime
+      publishedDate: r.publishedTime,
+      content: contentBudget && r.content ? truncateContent(r.content, contentBudget) : undefined
     }));
   }
 }
@@ -2,30 +2,30 @@
 // Metaso (秘塔) 搜索引擎
 // ============================================================
 
-import { SearchEngine } from './base';
+import { SearchEngine, DEFAULT_RETRY_POLICY } from './base';
 import type { SearchParams, SearchResult, Env } from '../types';
 
 export class MetasoEngine extends SearchEngine {
   private apiKey: string;
+  // API 失败后还有网页备用方案，少重试一次
+  protected retryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 2 };
 
   constructor(env: Env, timeout?: number) {
     super('Metaso', env, timeout);
     this.apiKey = env.METASO_API_KEY || '';
   }
 
-  isAvailable(): boolean {
-    return !!this.apiKey;
-  }
-
-  async search(params: SearchParams): Promise<SearchResult[]> {
+  async search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]> {
     if (!this.apiKey) {
       throw new Error('METASO_API_KEY not configured');
     }
 
-    const { query, maxResults = 10 } = params;
+    const { maxResults = 10 } = params;
+    const query = this.formatQuery(this.getQuery(params), ['phrase']);
 
     // Metaso API 调用
-    const response = await fetch('https://metaso.cn/api/search', {
+    const response = await this.fetchWithRetry('https://metaso.cn/api/search', {
+      signal,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -40,10 +40,11 @@ export class MetasoEngine extends SearchEngine {
 
     if (!response.ok) {
       // 如果API不可用，尝试备用方案
-      return this.fallbackSearch(query, maxResults);
+      return this.fallbackSearch(query, maxResults, signal);
     }
 
     const data = await response.json() as {
+      answer?: string;
       results?: Array<{
         title?: string;
         url?: string;
@@ -52,6 +53,16 @@ export class MetasoEngine extends SearchEngine {
       }>;
     };
 
+    // concise 模式会附带简明答案，引用即本次返回的结果
+    if (params.includeAnswers && data.answer) {
+      this.extras = {
+        answers: [{
+          text: data.answer,
+          citations: (data.results || []).filter(r => r.url).map(r => ({ title: r.title, url: r.url! }))
+        }]
+      };
+    }
+
     return (data.results || []).map(r => ({
       title: r.title || '',
       url: r.url || '',
@@ -61,11 +72,12 @@ export class MetasoEngine extends SearchEngine {
     }));
   }
 
-  private async fallbackSearch(query: string, maxResults: number): Promise<SearchResult[]> {
+  private async fallbackSearch(query: string, maxResults: number, signal: AbortSignal): Promise<SearchResult[]> {
     // 备用：通过网页版抓取
     const url = `https://metaso.cn/search?q=${encodeURIComponent(query)}`;
     
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
+      signal,
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
         'Accept': 'text/html,application/xhtml+xml'
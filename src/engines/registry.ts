@@ -0,0 +1,178 @@
+// ============================================================
+// 搜索引擎注册表 - 新增引擎只需在此登记
+// ============================================================
+
+import type { Env, SearchVertical } from '../types';
+import { SearchEngine } from './base';
+import { DuckDuckGoEngine } from './duckduckgo';
+import { SearXNGEngine } from './searxng';
+import { ExaEngine } from './exa';
+import { TavilyEngine } from './tavily';
+import { MetasoEngine } from './metaso';
+import { JinaEngine } from './jina';
+
+/**
+ * 引擎费用等级
+ */
+export type CostTier = 'free' | 'freemium' | 'paid';
+
+/**
+ * 引擎支持的搜索参数
+ */
+export interface EngineCapabilities {
+  dateRange: boolean;
+  language: boolean;
+  safeSearch: boolean;
+  pagination: boolean;
+  /** 能否随搜索结果返回页面正文 */
+  content: boolean;
+  /** 能否返回答案、相关搜索、图片或要点等附加信息 */
+  answers: boolean;
+  /** 支持的搜索类别 */
+  verticals: SearchVertical[];
+}
+
+/**
+ * 引擎描述
+ */
+export interface EngineDescriptor {
+  id: string;
+  displayName: string;
+  aliases: string[];
+  description: string;
+  requiredEnv: (keyof Env)[];
+  supports: EngineCapabilities;
+  costTier: CostTier;
+  /** 结果缓存的默认有效期（秒），可由 CACHE_TTL 覆盖 */
+  cacheTtl: number;
+  create(env: Env, timeout?: number): SearchEngine;
+}
+
+/**
+ * 已创建的引擎实例及其描述
+ */
+export interface EngineInstance {
+  descriptor: EngineDescriptor;
+  engine: SearchEngine;
+}
+
+export const ENGINE_REGISTRY: readonly EngineDescriptor[] = [
+  {
+    id: 'duckduckgo',
+    displayName: 'DuckDuckGo',
+    aliases: ['ddg', 'duck'],
+    description: 'DuckDuckGo HTML 搜索，无需 API Key',
+    requiredEnv: [],
+    supports: { dateRange: true, language: true, safeSearch: false, pagination: true, content: false, answers: false, verticals: ['web'] },
+    costTier: 'free',
+    cacheTtl: 600,
+    create: (env, timeout) => new DuckDuckGoEngine(env, timeout)
+  },
+  {
+    id: 'searxng',
+    displayName: 'SearXNG',
+    aliases: ['searx'],
+    description: '自托管 SearXNG 元搜索实例',
+    requiredEnv: ['SEARXNG_URL'],
+    supports: { dateRange: true, language: true, safeSearch: true, pagination: true, content: false, answers: true, verticals: ['web', 'news', 'academic', 'code', 'images'] },
+    costTier: 'free',
+    cacheTtl: 600,
+    create: (env, timeout) => new SearXNGEngine(env, timeout)
+  },
+  {
+    id: 'exa',
+    displayName: 'Exa',
+    aliases: ['exa-ai', 'metaphor'],
+    description: 'Exa AI 语义搜索',
+    requiredEnv: ['EXA_API_KEY'],
+    supports: { dateRange: true, language: true, safeSearch: false, pagination: true, content: true, answers: true, verticals: ['web', 'news', 'academic', 'code'] },
+    costTier: 'paid',
+    cacheTtl: 3600,
+    create: (env, timeout) => new ExaEngine(env, timeout)
+  },
+  {
+    id: 'tavily',
+    displayName: 'Tavily',
+    aliases: [],
+    description: 'Tavily 面向 AI Agent 的搜索 API',
+    requiredEnv: ['TAVILY_API_KEY'],
+    supports: { dateRange: true, language: true, safeSearch: false, pagination: true, content: true, answers: true, verticals: ['web', 'news'] },
+    costTier: 'freemium',
+    cacheTtl: 1800,
+    create: (env, timeout) => new TavilyEngine(env, timeout)
+  },
+  {
+    id: 'metaso',
+    displayName: 'Metaso',
+    aliases: ['秘塔', 'mita'],
+    description: '秘塔 AI 搜索，中文内容较好',
+    requiredEnv: ['METASO_API_KEY'],
+    supports: { dateRange: false, language: false, safeSearch: false, pagination: false, content: false, answers: true, verticals: ['web'] },
+    costTier: 'freemium',
+    cacheTtl: 1800,
+    create: (env, timeout) => new MetasoEngine(env, timeout)
+  },
+  {
+    id: 'jina',
+    displayName: 'Jina',
+    aliases: ['jina-ai'],
+    description: 'Jina AI 搜索 (s.jina.ai)',
+    requiredEnv: ['JINA_API_KEY'],
+    supports: { dateRange: false, language: false, safeSearch: false, pagination: false, content: true, answers: false, verticals: ['web'] },
+    costTier: 'freemium',
+    cacheTtl: 1800,
+    create: (env, timeout) => new JinaEngine(env, timeout)
+  }
+];
+
+export const VERTICALS: readonly SearchVertical[] = ['web', 'news', 'academic', 'code', 'images'];
+
+export const ENGINE_IDS = ENGINE_REGISTRY.map(d => d.id) as [string, ...string[]];
+
+/**
+ * engines 参数可接受的名称：id 与别名
+ */
+export const ENGINE_NAMES = ENGINE_REGISTRY.flatMap(d => [d.id, ...d.aliases]) as [string, ...string[]];
+
+export const DEFAULT_ENGINE_ID = 'duckduckgo';
+
+/**
+ * 按 id 或别名查找引擎（不区分大小写）
+ */
+export function resolveEngine(name: string): EngineDescriptor | undefined {
+  const key = name.trim().toLowerCase();
+  return ENGINE_REGISTRY.find(d => d.id === key || d.aliases.includes(key));
+}
+
+/**
+ * 引擎是否支持该搜索类别（未指定时为 web）
+ */
+export function supportsVertical(descriptor: EngineDescriptor, vertical?: SearchVertical): boolean {
+  return descriptor.supports.verticals.includes(vertical || 'web');
+}
+
+/**
+ * 引擎所需的环境变量是否都已配置
+ */
+export function isEngineConfigured(descriptor: EngineDescriptor, env: Env): boolean {
+  return descriptor.requiredEnv.every(key => !!env[key]);
+}
+
+/**
+ * 根据名称列表创建可用的引擎实例，未知或未配置的名称会被忽略
+ */
+export function createEngines(env: Env, names: string[], timeout?: number): EngineInstance[] {
+  const engines: EngineInstance[] = [];
+  const seen = new Set<string>();
+
+  for (const name of names) {
+    const descriptor = resolveEngine(name);
+    if (!descriptor || seen.has(descriptor.id) || !isEngineConfigured(descriptor, env)) {
+      continue;
+    }
+    seen.add(descriptor.id);
+    engines.push({ descriptor, engine: descriptor.create(env, timeout) });
+  }
+
+  return engines;
+}
@@ -3,7 +3,37 @@
 // ============================================================
 
 import { SearchEngine } from './base';
-import type { SearchParams, SearchResult, Env } from '../types';
+import type { SearchParams, SearchResult, SearchVertical, ImageInfo, Env } from '../types';
+
+const SEARXNG_CATEGORIES: Record<SearchVertical, string> = {
+  web: 'general',
+  news: 'news',
+  academic: 'science',
+  code: 'it',
+  images: 'images'
+};
+
+const TIME_RANGES: [string, number][] = [['day', 1], ['week', 7], ['month', 30], ['year', 365]];
+
+function coveringTimeRange(from: number | undefined): string | undefined {
+  if (from === undefined) return undefined;
+  const days = (Date.now() - from) / (24 * 60 * 60 * 1000);
+  return TIME_RANGES.find(([, limit]) => days <= limit)?.[0];
+}
+
+/**
+ * 图片结果：img_src 为原图，resolution 形如 "1920 x 1080"
+ */
+function parseImage(r: { img_src?: string; thumbnail_src?: string; resolution?: string }): ImageInfo | undefined {
+  if (!r.img_src) return undefined;
+  const size = r.resolution?.match(/(\d+)\s*[x×]\s*(\d+)/);
+  return {
+    url: r.img_src,
+    thumbnailUrl: r.thumbnail_src || undefined,
+    width: size ? Number(size[1]) : undefined,
+    height: size ? Number(size[2]) : undefined
+  };
+}
 
 export class SearXNGEngine extends SearchEngine {
   private baseUrl: string;
@@ -13,22 +43,36 @@ export class SearXNGEngine extends SearchEngine {
     this.baseUrl = env.SEARXNG_URL || 'https://searx.be';
   }
 
-  async search(params: SearchParams): Promise<SearchResult[]> {
-    const { query, maxResults = 10, dateRange, language = 'en', safeSearch = true } = params;
+  async search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]> {
+    const { dateRange, safeSearch = true } = params;
+    const locale = this.getLocale(params);
+    // 只有主语言时补上地区，如 zh + CN → zh-CN
+    const language = !locale?.language ? 'en'
+      : locale.region && !locale.language.includes('-') ? locale.language + '-' + locale.region
+      : locale.language;
     
+    // 运算符原样交给 SearXNG 后端的搜索引擎
     const searchParams = new URLSearchParams({
-      q: query,
+      q: this.formatQuery(this.getQuery(params)),
       format: 'json',
-      pageno: '1',
+      pageno: String(params.page || 1),
       language: language,
       safesearch: safeSearch ? '1' : '0'
     });
 
-    if (dateRange && dateRange !== 'all') {
-      searchParams.set('time_range', dateRange);
+    // 自定义范围取能覆盖起始日期的最小 time_range，其余交给后置过滤
+    const window = this.getDateWindow(params);
+    if (params.vertical) {
+      searchParams.set('categories', SEARXNG_CATEGORIES[params.vertical]);
+    }
+
+    const timeRange = params.from || params.to ? coveringTimeRange(window?.from) : dateRange;
+    if (timeRange && timeRange !== 'all') {
+      searchParams.set('time_range', timeRange);
     }
 
-    const response = await fetch(`\({this.baseUrl}/search?\){searchParams}`, {
+    const response = await this.fetchWithRetry(`${this.baseUrl}/search?${searchParams}`, {
+      signal,
       headers: {
         'Accept': 'application/json',
         'User-Agent': 'UnifiedSearchMCP/1.0'
@@ -40,22 +84,47 @@ export class SearXNGEngine extends SearchEngine {
     }
 
     const data = await response.json() as {
+      answers?: Array<string | { answer?: string; url?: string }>;
+      infoboxes?: Array<{ infobox?: string; content?: string; urls?: Array<{ title?: string; url?: string }> }>;
+      suggestions?: string[];
       results?: Array<{
         title?: string;
         url?: string;
         content?: string;
         publishedDate?: string;
         score?: number;
+        img_src?: string;
+        thumbnail_src?: string;
+        resolution?: string;
       }>;
     };
     
-    return (data.results || []).slice(0, maxResults).map(r => ({
+    if (params.includeAnswers) {
+      this.extras = {
+        answers: [
+          ...(data.answers || []).map(a => (typeof a === 'string'
+            ? { text: a, citations: [] }
+            : { text: a.answer || '', citations: a.url ? [{ url: a.url }] : [] })),
+          // 信息框（如维基百科摘要）作为答案，附带其中的链接
+          ...(data.infoboxes || []).map(box => ({
+            text: [box.infobox, box.content].filter(Boolean).join(': '),
+            citations: (box.urls || []).filter(u => u.url).map(u => ({ title: u.title, url: u.url! }))
+          }))
+        ],
+        relatedQueries: data.suggestions || []
+      };
+    }
+
+    // pageno 按 SearXNG 自身的页大小翻页，整页结果都返回；超出 maxResults 的部分由聚合器留到下一页，
+    // 该页全部返回后才翻到下一个 pageno
+    return (data.results || []).map(r => ({
       title: r.title || '',
       url: r.url || '',
       snippet: r.content || '',
       source: this.name,
       publishedDate: r.publishedDate,
-      score: r.score
+      score: r.score,
+      image: parseImage(r)
     }));
   }
 }
@@ -4,6 +4,14 @@
 
 import { SearchEngine } from './base';
 import type { SearchParams, SearchResult, Env } from '../types';
+import { formatDay } from '../dates';
+import { toTavilyCountry } from '../locale';
+import { truncateContent } from '../reader';
+
+const TAVILY_MAX_RESULTS = 20;
+
+/** 答案引用的结果数 */
+const TAVILY_ANSWER_CITATIONS = 5;
 
 export class TavilyEngine extends SearchEngine {
   private apiKey: string;
@@ -13,40 +21,57 @@ export class TavilyEngine extends SearchEngine {
     this.apiKey = env.TAVILY_API_KEY || '';
   }
 
-  isAvailable(): boolean {
-    return !!this.apiKey;
-  }
-
-  async search(params: SearchParams): Promise<SearchResult[]> {
+  async search(params: SearchParams, signal: AbortSignal): Promise<SearchResult[]> {
     if (!this.apiKey) {
       throw new Error('TAVILY_API_KEY not configured');
     }
 
-    const { query, maxResults = 10, dateRange } = params;
+    const { maxResults = 10, page = 1, dateRange } = params;
+    const parsed = this.getQuery(params);
+    // Tavily 没有偏移参数，翻页时多取几页再截掉前面的部分
+    const offset = (page - 1) * maxResults;
+    if (offset >= TAVILY_MAX_RESULTS) {
+      return [];
+    }
 
+    const contentBudget = this.getContentBudget(params);
     const body: Record<string, unknown> = {
       api_key: this.apiKey,
-      query,
-      max_results: maxResults,
-      include_answer: false,
-      include_raw_content: false,
-      search_depth: 'basic'
+      query: this.formatQuery(parsed, ['phrase']),
+      max_results: Math.min(TAVILY_MAX_RESULTS, offset + maxResults),
+      include_answer: params.includeAnswers === true,
+      include_raw_content: contentBudget ? 'markdown' : false,
+      include_images: params.includeAnswers === true,
+      include_image_descriptions: params.includeAnswers === true,
+      search_depth: 'basic',
+      topic: params.vertical === 'news' ? 'news' : 'general'
     };
 
-    // Tavily 日期过滤
-    if (dateRange && dateRange !== 'all') {
-      const dayMap: Record<string, string> = {
-        day: 'd',
-        week: 'w',
-        month: 'm',
-        year: 'y'
-      };
-      body.days = dayMap[dateRange] === 'd' ? 1 : 
-                  dayMap[dateRange] === 'w' ? 7 : 
-                  dayMap[dateRange] === 'm' ? 30 : 365;
+    // 地区，Tavily 仅在 general 主题下支持 country
+    const country = toTavilyCountry(this.getLocale(params));
+    if (country && body.topic === 'general') {
+      body.country = country;
+    }
+
+    // 站点过滤
+    if (parsed.sites.length > 0) {
+      body.include_domains = parsed.sites;
+    }
+    if (parsed.excludeSites.length > 0) {
+      body.exclude_domains = parsed.excludeSites;
+    }
+
+    // Tavily 日期过滤：自定义范围用 start_date/end_date，否则用 time_range（days 只对 news 主题生效）
+    if (params.from || params.to) {
+      const window = this.getDateWindow(params);
+      body.start_date = formatDay(window?.from);
+      body.end_date = formatDay(window?.to);
+    } else if (dateRange && dateRange !== 'all') {
+      body.time_range = dateRange;
     }
 
-    const response = await fetch('https://api.tavily.com/search', {
+    const response = await this.fetchWithRetry('https://api.tavily.com/search', {
+      signal,
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -56,26 +81,46 @@ export class TavilyEngine extends SearchEngine {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Tavily API error: \({response.status} - \){errorText}`);
+      throw new Error(`Tavily API error: ${response.status} - ${errorText}`);
     }
 
     const data = await response.json() as {
+      answer?: string | null;
+      images?: Array<string | { url?: string; description?: string }>;
+      follow_up_questions?: string[] | null;
       results?: Array<{
         title?: string;
         url?: string;
         content?: string;
+        raw_content?: string | null;
         published_date?: string;
         score?: number;
       }>;
     };
 
-    return (data.results || []).map(r => ({
+    const results = (data.results || []).slice(offset);
+    if (params.includeAnswers) {
+      // Tavily 的答案基于本次结果生成，以排名靠前的结果作为引用
+      this.extras = {
+        answers: data.answer ? [{
+          text: data.answer,
+          citations: results.slice(0, TAVILY_ANSWER_CITATIONS).map(r => ({ title: r.title, url: r.url || '' })).filter(c => c.url)
+        }] : [],
+        relatedQueries: data.follow_up_questions || [],
+        images: (data.images || [])
+          .map(image => (typeof image === 'string' ? { url: image } : { url: image.url || '', description: image.description }))
+          .filter(image => image.url)
+      };
+    }
+
+    return results.map(r => ({
       title: r.title || '',
       url: r.url || '',
       snippet: r.content || '',
       source: this.name,
       publishedDate: r.published_date,
-      score: r.score
+      score: r.score,
+      content: contentBudget && r.raw_content ? truncateContent(r.raw_content, contentBudget) : undefined
     }));
   }
 }
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Env, SearchResult } from './types';
+import { enrichResults } from './enrich';
+
+const ARTICLE = '<html><head><title>Fast page</title></head><body><article><p>'
+  + 'The fast page answers right away with enough text to be taken as its main content. '.repeat(4)
+  + '</p></article></body></html>';
+
+/** 发送开头后不再发送数据，直到被取消 */
+function stalledBody(): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start: controller => controller.enqueue(new TextEncoder().encode('<html><body>')),
+    pull: () => new Promise<void>(() => {})
+  });
+}
+
+describe('enrichResults', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('到达截止时间时返回已完成的部分', async () => {
+    vi.stubGlobal('fetch', async (url: string) => new Response(
+      url.includes('fast') ? ARTICLE : stalledBody(),
+      { headers: { 'Content-Type': 'text/html' } }
+    ));
+    const results: SearchResult[] = [
+      { title: 'Fast', url: 'https://example.com/fast', snippet: '', source: 'Exa' },
+      { title: 'Slow', url: 'https://example.com/slow', snippet: '', source: 'Exa' }
+    ];
+
+    const started = Date.now();
+    const enriched = await enrichResults({ DEFAULT_TIMEOUT: '10000' } as Env, results, { maxChars: 500, deadline: Date.now() + 300 });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(enriched[0].content).toContain('The fast page answers right away');
+    expect(enriched[1].content).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+// ============================================================
+// 正文补全 - 为排名靠前、引擎未返回正文的结果抓取页面并提取正文
+// ============================================================
+
+import type { Env, SearchResult } from './types';
+import { readUrl } from './reader';
+
+/** contentMaxChars 默认值 */
+export const DEFAULT_CONTENT_CHARS = 3000;
+
+/** full 模式下最多抓取补全的结果数 */
+export const CONTENT_FETCH_LIMIT = 5;
+
+export interface EnrichOptions {
+  maxChars: number;
+  limit?: number;
+  /** 截止时间戳（毫秒），到时放弃尚未完成的抓取 */
+  deadline?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * 并发抓取前 limit 条缺少正文的结果；抓取失败的结果保持原样
+ */
+export async function enrichResults(env: Env, results: SearchResult[], options: EnrichOptions): Promise<SearchResult[]> {
+  const limit = options.limit ?? CONTENT_FETCH_LIMIT;
+  const targets = results.slice(0, limit).filter(r => !r.content && !r.image);
+  if (targets.length === 0 || options.signal?.aborted) return results;
+
+  const remaining = options.deadline !== undefined ? options.deadline - Date.now() : undefined;
+  if (remaining !== undefined && remaining <= 0) return results;
+
+  const controller = new AbortController();
+  const onCancel = () => controller.abort(new Error('Cancelled'));
+  options.signal?.addEventListener('abort', onCancel);
+  const deadlineId = remaining !== undefined
+    ? setTimeout(() => controller.abort(new Error('Timeout: deadline reached')), remaining)
+    : undefined;
+
+  try {
+    const pages = await Promise.all(targets.map(r => readUrl(env, r.url, { maxChars: options.maxChars, reader: 'auto' }, controller.signal)));
+    const contents = new Map(targets.map((r, i) => [r, pages[i].error ? undefined : pages[i].content]));
+    return results.map(r => (contents.get(r) ? { ...r, content: contents.get(r) } : r));
+  } finally {
+    if (deadlineId !== undefined) {
+      clearTimeout(deadlineId);
+    }
+    options.signal?.removeEventListener('abort', onCancel);
+  }
+}
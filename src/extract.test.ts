@@ -0,0 +1,58 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest';
+import { extractPage } from './extract';
+import articlePage from './__fixtures__/article.html?raw';
+
+describe('extractPage', () => {
+  const page = extractPage(articlePage, 'https://blog.example.com/posts/ownership');
+
+  it('从 meta 读取标题、作者、日期和站点名', () => {
+    expect(page).toMatchObject({
+      title: 'Understanding Ownership in Rust',
+      byline: 'Jane Doe',
+      publishedDate: '2024-03-15T08:30:00.000Z',
+      siteName: 'Example Blog'
+    });
+  });
+
+  it('只保留正文，去掉导航、侧栏、署名、分享按钮和评论', () => {
+    expect(page.markdown).toMatch(/^Ownership is the set of rules/);
+    for (const noise of ['Archive', 'Popular posts', 'By Jane Doe', 'Share on Twitter', 'Great article', '2024 Example Blog', 'dataLayer']) {
+      expect(page.markdown).not.toContain(noise);
+    }
+  });
+
+  it('开头重复的标题被去掉，其余标题保留层级', () => {
+    expect(page.markdown).not.toContain('# Understanding Ownership');
+    expect(page.markdown).toContain('\n\n## Moves and copies\n\n');
+  });
+
+  it('转换行内格式并解析相对链接', () => {
+    expect(page.markdown).toContain('checked at compile time by the `borrow checker`.');
+    expect(page.markdown).toContain('See the [borrowing guide](https://blog.example.com/docs/borrowing) for details & examples.');
+    expect(page.markdown).toContain('Types that implement **Copy** are duplicated instead');
+    expect(page.markdown).toContain('![Ownership diagram](https://blog.example.com/posts/images/ownership.png)');
+  });
+
+  it('代码块保留原始换行和语言', () => {
+    expect(page.markdown).toContain([
+      '```rust',
+      'let s1 = String::from("hello");',
+      'let s2 = s1;',
+      '// println!("{}", s1); // error: value moved',
+      '```'
+    ].join('\n'));
+  });
+
+  it('列表和表格', () => {
+    expect(page.markdown).toContain('- Each value has an owner\n- There is only one owner at a time\n- The value is dropped with its owner');
+    expect(page.markdown).toContain('| Type | Behavior |\n| --- | --- |\n| i32 | Copy |\n| String | Move |');
+  });
+
+  it('深层未闭合标签不会栈溢出', () => {
+    const paragraph = '<p>' + 'Deeply nested pages still produce readable text for the reader. '.repeat(5) + '</p>';
+    const html = '<html><body>' + '<div><b><i>'.repeat(3000) + paragraph + '</body></html>';
+    const deep = extractPage(html, 'https://example.com/');
+    expect(deep.markdown).toContain('Deeply nested pages still produce readable text');
+  });
+});
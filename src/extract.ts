@@ -0,0 +1,307 @@
+// ============================================================
+// 正文提取 - 从网页 HTML 中找出主体内容并转换为 Markdown
+// ============================================================
+
+import { parseHtml, textContent, findAll, findFirst } from './html';
+import type { HtmlElement, HtmlNode } from './html';
+import { normalizeDate } from './dates';
+
+/**
+ * 提取结果
+ */
+export interface ExtractedPage {
+  title: string;
+  byline?: string;
+  /** ISO-8601 */
+  publishedDate?: string;
+  siteName?: string;
+  markdown: string;
+}
+
+/** 整体跳过的元素 */
+const SKIP_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'nav', 'header', 'footer', 'aside', 'form', 'button', 'input', 'select', 'textarea', 'dialog'
+]);
+
+/** class/id 命中时视为页面杂项（评论、侧栏、分享、广告等） */
+const NOISE_PATTERN = /(^|[\s_-])(comments?|sidebar|footer|nav|navbar|menu|share|sharing|social|related|recommend|advert|ads?|promo|sponsor|cookie|popup|modal|subscribe|newsletter|breadcrumbs?|byline)($|[\s_-])/i;
+
+const HEADINGS: Record<string, string> = { h1: '#', h2: '##', h3: '###', h4: '####', h5: '#####', h6: '######' };
+
+/** 渲染为独立段落的块级元素 */
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'figure', 'figcaption', 'details', 'summary',
+  'dl', 'dt', 'dd', 'address', 'center'
+]);
+
+function collectMeta(root: HtmlElement): Map<string, string> {
+  const meta = new Map<string, string>();
+  for (const el of findAll(root, e => e.tag === 'meta')) {
+    const key = (el.attrs.property || el.attrs.name || el.attrs.itemprop || '').toLowerCase();
+    const content = el.attrs.content?.trim();
+    if (key && content && !meta.has(key)) {
+      meta.set(key, content);
+    }
+  }
+  return meta;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function isHidden(el: HtmlElement): boolean {
+  return 'hidden' in el.attrs
+    || el.attrs['aria-hidden'] === 'true'
+    || /display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attrs.style || '');
+}
+
+function isNoise(el: HtmlElement): boolean {
+  return SKIP_TAGS.has(el.tag)
+    || isHidden(el)
+    || el.attrs.role === 'navigation' || el.attrs.role === 'complementary'
+    || NOISE_PATTERN.test((el.attrs.class || '') + ' ' + (el.attrs.id || ''));
+}
+
+function extractTitle(root: HtmlElement, meta: Map<string, string>): string {
+  const title = findFirst(root, e => e.tag === 'title');
+  const h1 = findFirst(root, e => e.tag === 'h1');
+  return cleanText(meta.get('og:title') || meta.get('twitter:title') || (title && textContent(title)) || (h1 && textContent(h1)) || '');
+}
+
+function extractByline(root: HtmlElement, meta: Map<string, string>): string | undefined {
+  const fromMeta = meta.get('author') || meta.get('article:author') || meta.get('twitter:creator');
+  // article:author 可能是作者主页 URL
+  if (fromMeta && !/^https?:\/\//.test(fromMeta)) {
+    return fromMeta;
+  }
+  const el = findFirst(root, e =>
+    e.attrs.rel === 'author'
+    || e.attrs.itemprop === 'author'
+    || /(^|[\s_-])(byline|author)($|[\s_-])/i.test(e.attrs.class || '')
+  );
+  const text = el && cleanText(textContent(el)).replace(/^(by|作者[:：]?)\s*/i, '');
+  return text && text.length <= 100 ? text : undefined;
+}
+
+function extractPublishedDate(root: HtmlElement, meta: Map<string, string>): string | undefined {
+  const candidates = [
+    meta.get('article:published_time'),
+    meta.get('datepublished'),
+    meta.get('pubdate'),
+    meta.get('publishdate'),
+    meta.get('date'),
+    meta.get('dc.date.issued'),
+    meta.get('dc.date')
+  ];
+  const itemprop = findFirst(root, e => e.attrs.itemprop === 'datePublished');
+  if (itemprop) candidates.push(itemprop.attrs.datetime || itemprop.attrs.content || textContent(itemprop).trim());
+  const time = findFirst(root, e => e.tag === 'time' && !!e.attrs.datetime);
+  if (time) candidates.push(time.attrs.datetime);
+
+  for (const value of candidates) {
+    const date = normalizeDate(value);
+    if (date) return date;
+  }
+  return undefined;
+}
+
+/**
+ * 选择正文容器：优先 <article>/<main>，否则按段落文本量给父节点打分
+ */
+function findContentRoot(root: HtmlElement): HtmlElement {
+  const body = findFirst(root, e => e.tag === 'body') || root;
+  const textLength = (el: HtmlElement) => cleanText(textContent(el)).length;
+
+  const articles = findAll(body, e => e.tag === 'article' && !isNoise(e));
+  if (articles.length > 0) {
+    const best = articles.reduce((a, b) => (textLength(b) > textLength(a) ? b : a));
+    if (textLength(best) >= 200) return best;
+  }
+  const main = findFirst(body, e => e.tag === 'main' || e.attrs.role === 'main');
+  if (main && textLength(main) >= 200) return main;
+
+  const scores = new Map<HtmlElement, number>();
+  for (const p of findAll(body, e => e.tag === 'p' || e.tag === 'pre')) {
+    const text = cleanText(textContent(p));
+    if (text.length < 25) continue;
+    const score = 1 + (text.match(/[,，、。]/g) || []).length + Math.min(text.length / 100, 3);
+    if (p.parent) scores.set(p.parent, (scores.get(p.parent) || 0) + score);
+    if (p.parent?.parent) scores.set(p.parent.parent, (scores.get(p.parent.parent) || 0) + score / 2);
+  }
+
+  let best: HtmlElement | undefined;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    if (el === root || isNoise(el)) continue;
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  return best || body;
+}
+
+/**
+ * 链接文字占比，用于识别导航类的链接列表
+ */
+function linkDensity(el: HtmlElement): number {
+  const total = cleanText(textContent(el)).length;
+  if (total === 0) return 0;
+  const linked = findAll(el, e => e.tag === 'a').reduce((sum, a) => sum + cleanText(textContent(a)).length, 0);
+  return linked / total;
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | undefined {
+  if (!href || /^(javascript|mailto|data):/i.test(href.trim())) return undefined;
+  try {
+    return new URL(href.trim(), baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * HTML 子树到 Markdown 的渲染器；代码块先以占位符输出，避免被空白整理破坏
+ */
+class MarkdownRenderer {
+  private codeBlocks: string[] = [];
+
+  constructor(private baseUrl: string) {}
+
+  render(root: HtmlElement): string {
+    const markdown = this.children(root, 0)
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n[ \t]+(?=\n)/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/\n\n[ \t]+/g, '\n\n')
+      .trim();
+    return markdown.replace(/\u0000(\d+)\u0000/g, (_, i: string) => this.codeBlocks[Number(i)]);
+  }
+
+  private children(el: HtmlElement, depth: number): string {
+    return el.children.map(child => this.node(child, depth)).join('');
+  }
+
+  private inline(el: HtmlElement, depth: number): string {
+    return cleanText(this.children(el, depth));
+  }
+
+  private node(node: HtmlNode, depth: number): string {
+    if (node.type === 'text') {
+      return node.text.replace(/\s+/g, ' ');
+    }
+    const el = node;
+    if (isNoise(el)) return '';
+
+    if (HEADINGS[el.tag]) {
+      const text = this.inline(el, depth);
+      return text ? '\n\n' + HEADINGS[el.tag] + ' ' + text + '\n\n' : '';
+    }
+
+    switch (el.tag) {
+      case 'br':
+        return '\n';
+      case 'hr':
+        return '\n\n---\n\n';
+      case 'a': {
+        const text = this.inline(el, depth);
+        const href = resolveUrl(el.attrs.href, this.baseUrl);
+        return text && href ? '[' + text + '](' + href + ')' : text;
+      }
+      case 'img': {
+        const src = resolveUrl(el.attrs.src || el.attrs['data-src'], this.baseUrl);
+        return src ? '![' + cleanText(el.attrs.alt || '') + '](' + src + ')' : '';
+      }
+      case 'strong':
+      case 'b': {
+        const text = this.inline(el, depth);
+        return text ? '**' + text + '**' : '';
+      }
+      case 'em':
+      case 'i': {
+        const text = this.inline(el, depth);
+        return text ? '_' + text + '_' : '';
+      }
+      case 'code': {
+        const text = cleanText(textContent(el));
+        return text ? '`' + text + '`' : '';
+      }
+      case 'pre': {
+        const language = (el.attrs.class || findFirst(el, e => e.tag === 'code')?.attrs.class || '').match(/language-([\w+-]+)/)?.[1] || '';
+        this.codeBlocks.push('```' + language + '\n' + textContent(el).replace(/^\n|\n\s*$/g, '') + '\n```');
+        return '\n\n\u0000' + (this.codeBlocks.length - 1) + '\u0000\n\n';
+      }
+      case 'blockquote': {
+        const text = this.children(el, depth).trim().replace(/\n{3,}/g, '\n\n');
+        return text ? '\n\n' + text.split('\n').map(line => '> ' + line).join('\n') + '\n\n' : '';
+      }
+      case 'ul':
+      case 'ol':
+        return this.list(el, depth);
+      case 'table':
+        return this.table(el, depth);
+    }
+
+    if (BLOCK_TAGS.has(el.tag)) {
+      // 链接为主的块（站内导航、标签云）不属于正文
+      if (el.tag !== 'p' && linkDensity(el) > 0.6 && cleanText(textContent(el)).length < 500) return '';
+      return '\n\n' + this.children(el, depth).trim() + '\n\n';
+    }
+    return this.children(el, depth);
+  }
+
+  private list(el: HtmlElement, depth: number): string {
+    if (linkDensity(el) > 0.8 && depth === 0) return '';
+    const indent = '  '.repeat(depth);
+    let index = parseInt(el.attrs.start || '1') || 1;
+    const items = el.children
+      .filter((c): c is HtmlElement => c.type === 'element' && c.tag === 'li')
+      .map(li => {
+        const marker = el.tag === 'ol' ? index++ + '. ' : '- ';
+        const text = this.children(li, depth + 1).trim().replace(/\n{2,}/g, '\n');
+        return text ? indent + marker + text : '';
+      })
+      .filter(Boolean);
+    return items.length > 0 ? '\n' + (depth === 0 ? '\n' : '') + items.join('\n') + '\n' + (depth === 0 ? '\n' : '') : '';
+  }
+
+  private table(el: HtmlElement, depth: number): string {
+    const rows = findAll(el, e => e.tag === 'tr')
+      .map(tr => tr.children
+        .filter((c): c is HtmlElement => c.type === 'element' && (c.tag === 'td' || c.tag === 'th'))
+        .map(cell => this.inline(cell, depth).replace(/\|/g, '\\|')))
+      .filter(cells => cells.length > 0);
+    if (rows.length === 0) return '';
+    const width = Math.max(...rows.map(r => r.length));
+    const line = (cells: string[]) => '| ' + Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ') + ' |';
+    return '\n\n' + [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n') + '\n\n';
+  }
+}
+
+/**
+ * 提取网页的标题、作者、发布日期与正文 Markdown
+ * @param baseUrl 页面地址，用于把相对链接转换为绝对链接
+ */
+export function extractPage(html: string, baseUrl: string): ExtractedPage {
+  const root = parseHtml(html);
+  const meta = collectMeta(root);
+  const content = findContentRoot(root);
+  const title = extractTitle(root, meta);
+
+  let markdown = new MarkdownRenderer(baseUrl).render(content);
+  // 正文开头重复的标题去掉，标题单独返回
+  const heading = markdown.match(/^#{1,2} (.+)\n*/);
+  if (heading && title && (title.includes(heading[1]) || heading[1].includes(title))) {
+    markdown = markdown.slice(heading[0].length);
+  }
+
+  return {
+    title,
+    byline: extractByline(root, meta),
+    publishedDate: extractPublishedDate(root, meta),
+    siteName: meta.get('og:site_name'),
+    markdown
+  };
+}
@@ -0,0 +1,145 @@
+// ============================================================
+// MCP 工具实现
+// ============================================================
+
+import type { Env, EngineOutcome, ToolContext } from './types';
+import { ENGINE_REGISTRY, isEngineConfigured } from './engines/registry';
+import { executeSearch } from './search';
+import { createSearchCache } from './cache';
+import { createHealthTracker } from './health';
+import { readUrl } from './reader';
+import { formatResults, formatResultsJson, formatResultsMarkdown, formatEngineList, formatPages, validateSearchParams, validateFetchParams } from './utils';
+
+async function runUnifiedSearch(env: Env, args: any, context: ToolContext = {}): Promise<any> {
+  const v = validateSearchParams(args, env);
+  if (!v.valid) {
+    const text = v.errors.map(e => e.field + ': ' + e.message).join('\n');
+    return { content: [{ type: 'text', text: 'Error: ' + text }], isError: true };
+  }
+  
+  const onProgress = context.onProgress;
+  const result = await executeSearch(env, v.sanitized, {
+    signal: context.signal,
+    waitUntil: context.waitUntil,
+    cache: createSearchCache(env),
+    health: createHealthTracker(env),
+    onEngineDone: onProgress && function(response, partial, completed, total) {
+      const stat = partial.engines.find(e => e.name === response.engine);
+      onProgress({
+        progress: completed,
+        total,
+        message: response.engine + ' ' + (stat ? stat.status : 'done') + ' (' + response.results.length + ' 条, ' + response.latency + 'ms)',
+        data: { engine: stat, partial }
+      });
+    }
+  });
+  if (v.warnings.length > 0) {
+    result.warnings = v.warnings;
+  }
+  
+  let output = '';
+  if (v.sanitized.outputFormat === 'json') {
+    output = formatResultsJson(result);
+  } else if (v.sanitized.outputFormat === 'markdown') {
+    output = formatResultsMarkdown(result);
+  } else {
+    output = formatResults(result);
+  }
+  
+  return { content: [{ type: 'text', text: output }] };
+}
+
+async function runFetchUrl(env: Env, args: any, context: ToolContext = {}): Promise<any> {
+  const v = validateFetchParams(args, env);
+  if (!v.valid) {
+    const text = v.errors.map(e => e.field + ': ' + e.message).join('\n');
+    return { content: [{ type: 'text', text: 'Error: ' + text }], isError: true };
+  }
+
+  const { urls, maxChars, reader, outputFormat } = v.sanitized;
+  let completed = 0;
+  const pages = await Promise.all(urls.map(async url => {
+    const page = await readUrl(env, url, { maxChars, reader }, context.signal);
+    context.onProgress?.({
+      progress: ++completed,
+      total: urls.length,
+      message: url + ' ' + (page.error ? '失败: ' + page.error : page.length + ' 字符 (' + page.via + ')')
+    });
+    return page;
+  }));
+
+  const output = outputFormat === 'json' ? JSON.stringify(pages, null, 2) : formatPages(pages);
+  // 全部失败时标记为错误，部分失败在各页面中说明
+  if (pages.every(p => p.error)) {
+    return { content: [{ type: 'text', text: output }], isError: true };
+  }
+  return { content: [{ type: 'text', text: output }] };
+}
+
+async function runConnectivityTest(env: Env): Promise<any> {
+  const timeout = 5000;
+  const health = createHealthTracker(env);
+  const outcomes: EngineOutcome[] = [];
+  const onOutcome = (outcome: EngineOutcome) => outcomes.push(outcome);
+  const lines: string[] = [];
+  lines.push('搜索引擎连通性测试');
+  lines.push('============================================================');
+  
+  const tested: string[] = [];
+  for (const descriptor of ENGINE_REGISTRY) {
+    const name = descriptor.id;
+    if (!isEngineConfigured(descriptor, env)) {
+      lines.push(name + ' | SKIP | 未配置');
+      continue;
+    }
+    
+    const start = Date.now();
+    tested.push(descriptor.displayName);
+    try {
+      const res = await descriptor.create(env, timeout).execute({ query: 'test', maxResults: 1 }, undefined, onOutcome);
+      const lat = Date.now() - start;
+      if (res.error) {
+        lines.push(name + ' | FAIL | ' + lat + 'ms | ' + res.error);
+      } else {
+        lines.push(name + ' | OK | ' + lat + 'ms');
+      }
+    } catch (e) {
+      lines.push(name + ' | FAIL | 连接异常');
+    }
+  }
+
+  // 测试结果同样计入健康度，成功的探测会关闭熔断
+  try {
+    await health.record(outcomes);
+    const snapshot = await health.snapshot();
+    lines.push('');
+    lines.push('熔断与健康度');
+    lines.push('------------------------------------------------------------');
+    for (const h of snapshot.filter(h => tested.includes(h.engine))) {
+      lines.push(h.engine + ' | 熔断: ' + h.circuit + ' | 成功率 ' + Math.round(h.successRate * 100) + '% (' + h.samples + ' 次)'
+        + ' | p50 ' + h.p50 + 'ms | p95 ' + h.p95 + 'ms'
+        + (h.lastError ? ' | 最近错误: ' + h.lastError : ''));
+    }
+  } catch (e) {
+    lines.push('');
+    lines.push('健康度数据不可用');
+  }
+  
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
+
+function runListEngines(env: Env): any {
+  return { content: [{ type: 'text', text: formatEngineList(ENGINE_REGISTRY, env) }] };
+}
+
+/**
+ * 工具处理函数
+ */
+export type ToolHandler = (env: Env, args: any, context?: ToolContext) => Promise<any>;
+
+export const TOOL_HANDLERS: Record<string, ToolHandler> = {
+  unified_search: runUnifiedSearch,
+  fetch_url: runFetchUrl,
+  test_engines_connectivity: runConnectivityTest,
+  list_engines: async (env) => runListEngines(env)
+};
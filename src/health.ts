@@ -0,0 +1,254 @@
+// ============================================================
+// 引擎健康度与熔断 - 基于 Durable Object SQLite 存储，按引擎分片
+// 连续失败达到阈值后熔断，冷却后放行一次半开探测
+// ============================================================
+
+import type { Env, EngineOutcome } from './types';
+import { ENGINE_REGISTRY } from './engines/registry';
+import { engineStateStub } from './cache';
+
+/**
+ * 熔断状态
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 熔断判断：allow 正常放行，probe 半开探测，skip 跳过
+ */
+export type CircuitDecision = 'allow' | 'probe' | 'skip';
+
+/**
+ * 单个引擎的健康快照
+ */
+export interface EngineHealth {
+  engine: string;
+  samples: number;
+  successRate: number;
+  p50: number;
+  p95: number;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+/**
+ * 成功调用的延迟分位数（毫秒）
+ */
+export interface EngineLatency {
+  p50: number;
+  p95: number;
+}
+
+/**
+ * 健康度访问接口
+ */
+export interface HealthTracker {
+  check(engines: string[], allowProbe?: boolean): Promise<Record<string, CircuitDecision>>;
+  record(outcomes: EngineOutcome[]): Promise<void>;
+  snapshot(): Promise<EngineHealth[]>;
+  /** 样本不足的引擎不出现在结果中 */
+  latency(engines: string[]): Promise<Record<string, EngineLatency>>;
+}
+
+/**
+ * 熔断配置
+ */
+export interface CircuitConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+const OUTCOME_WINDOW = 100;
+const MIN_LATENCY_SAMPLES = 5;
+
+export function getCircuitConfig(env: Env): CircuitConfig {
+  return {
+    failureThreshold: parseInt(env.CIRCUIT_FAILURE_THRESHOLD || '') || 3,
+    cooldownMs: parseInt(env.CIRCUIT_COOLDOWN_MS || '') || 60000
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+interface CircuitRow extends Record<string, SqlStorageValue> {
+  engine: string;
+  state: CircuitState;
+  opened_at: number;
+  probe_at: number;
+  consecutive_failures: number;
+  last_error: string | null;
+  last_error_at: number | null;
+}
+
+/**
+ * Durable Object 内部使用的健康度存储
+ */
+export class SqliteHealthTracker {
+  constructor(private sql: SqlStorage, private config: CircuitConfig) {
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS engine_outcomes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      engine TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      latency INTEGER NOT NULL,
+      error TEXT,
+      at INTEGER NOT NULL
+    )`);
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS engine_circuit (
+      engine TEXT PRIMARY KEY,
+      state TEXT NOT NULL,
+      opened_at INTEGER NOT NULL DEFAULT 0,
+      probe_at INTEGER NOT NULL DEFAULT 0,
+      consecutive_failures INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      last_error_at INTEGER
+    )`);
+  }
+
+  check(engines: string[], allowProbe = true): Record<string, CircuitDecision> {
+    const now = Date.now();
+    const decisions: Record<string, CircuitDecision> = {};
+
+    for (const engine of engines) {
+      const row = this.getCircuit(engine);
+      if (!row || row.state === 'closed') {
+        decisions[engine] = 'allow';
+        continue;
+      }
+
+      // 冷却结束后放行一次探测；探测超过冷却时间仍无结果时允许再次探测
+      const cooled = now - row.opened_at >= this.config.cooldownMs;
+      const probeFree = now - row.probe_at >= this.config.cooldownMs;
+      if (allowProbe && cooled && probeFree) {
+        this.sql.exec(
+          "UPDATE engine_circuit SET state = 'half-open', probe_at = ? WHERE engine = ?", now, engine
+        );
+        decisions[engine] = 'probe';
+      } else {
+        decisions[engine] = 'skip';
+      }
+    }
+
+    return decisions;
+  }
+
+  record(outcomes: EngineOutcome[]): void {
+    for (const outcome of outcomes) {
+      this.sql.exec(
+        'INSERT INTO engine_outcomes (engine, success, latency, error, at) VALUES (?, ?, ?, ?, ?)',
+        outcome.engine, outcome.success ? 1 : 0, outcome.latency, outcome.error ?? null, outcome.at
+      );
+      this.sql.exec(
+        'DELETE FROM engine_outcomes WHERE engine = ? AND id NOT IN (SELECT id FROM engine_outcomes WHERE engine = ? ORDER BY id DESC LIMIT ?)',
+        outcome.engine, outcome.engine, OUTCOME_WINDOW
+      );
+      this.updateCircuit(outcome);
+    }
+  }
+
+  latency(engines: string[]): Record<string, EngineLatency> {
+    const result: Record<string, EngineLatency> = {};
+    for (const engine of engines) {
+      const latencies = this.successLatencies(engine);
+      if (latencies.length >= MIN_LATENCY_SAMPLES) {
+        result[engine] = { p50: percentile(latencies, 50), p95: percentile(latencies, 95) };
+      }
+    }
+    return result;
+  }
+
+  snapshot(): EngineHealth[] {
+    const engines = this.sql.exec<{ engine: string }>(
+      'SELECT engine FROM engine_outcomes UNION SELECT engine FROM engine_circuit'
+    ).toArray().map(r => r.engine);
+
+    return engines.map(engine => {
+      const rows = this.sql.exec<{ success: number; latency: number }>(
+        'SELECT success, latency FROM engine_outcomes WHERE engine = ?', engine
+      ).toArray();
+      const latencies = this.successLatencies(engine);
+      const circuit = this.getCircuit(engine);
+
+      return {
+        engine,
+        samples: rows.length,
+        successRate: rows.length > 0 ? rows.filter(r => r.success).length / rows.length : 1,
+        p50: percentile(latencies, 50),
+        p95: percentile(latencies, 95),
+        circuit: circuit?.state ?? 'closed',
+        consecutiveFailures: circuit?.consecutive_failures ?? 0,
+        lastError: circuit?.last_error ?? undefined,
+        lastErrorAt: circuit?.last_error_at ? new Date(circuit.last_error_at).toISOString() : undefined
+      };
+    });
+  }
+
+  private successLatencies(engine: string): number[] {
+    return this.sql.exec<{ latency: number }>(
+      'SELECT latency FROM engine_outcomes WHERE engine = ? AND success = 1 ORDER BY latency', engine
+    ).toArray().map(r => r.latency);
+  }
+
+  private getCircuit(engine: string): CircuitRow | undefined {
+    return this.sql.exec<CircuitRow>('SELECT * FROM engine_circuit WHERE engine = ?', engine).toArray()[0];
+  }
+
+  private updateCircuit(outcome: EngineOutcome): void {
+    const row = this.getCircuit(outcome.engine);
+    if (outcome.success) {
+      this.sql.exec(
+        `INSERT INTO engine_circuit (engine, state, consecutive_failures) VALUES (?, 'closed', 0)
+         ON CONFLICT(engine) DO UPDATE SET state = 'closed', consecutive_failures = 0, opened_at = 0, probe_at = 0`,
+        outcome.engine
+      );
+      return;
+    }
+
+    const failures = (row?.consecutive_failures ?? 0) + 1;
+    // 半开探测失败或连续失败达到阈值时（重新）熔断
+    const open = row?.state === 'half-open' || row?.state === 'open' || failures >= this.config.failureThreshold;
+    this.sql.exec(
+      `INSERT INTO engine_circuit (engine, state, opened_at, consecutive_failures, last_error, last_error_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(engine) DO UPDATE SET state = excluded.state, opened_at = excluded.opened_at,
+         consecutive_failures = excluded.consecutive_failures, last_error = excluded.last_error,
+         last_error_at = excluded.last_error_at`,
+      outcome.engine,
+      open ? 'open' : 'closed',
+      open ? outcome.at : 0,
+      failures,
+      outcome.error ?? null,
+      outcome.at
+    );
+  }
+}
+
+/**
+ * 通过 RPC 并发访问各引擎分片中的健康度数据
+ */
+export function createHealthTracker(env: Env): HealthTracker {
+  return {
+    check: async (engines, allowProbe) => {
+      const decisions = await Promise.all(engines.map(engine => engineStateStub(env, engine).healthCheck([engine], allowProbe)));
+      return Object.assign({}, ...decisions);
+    },
+    record: async outcomes => {
+      const engines = [...new Set(outcomes.map(o => o.engine))];
+      await Promise.all(engines.map(engine =>
+        engineStateStub(env, engine).healthRecord(outcomes.filter(o => o.engine === engine))
+      ));
+    },
+    latency: async engines => {
+      const latencies = await Promise.all(engines.map(engine => engineStateStub(env, engine).healthLatency([engine])));
+      return Object.assign({}, ...latencies);
+    },
+    snapshot: async () => {
+      const snapshots = await Promise.all(ENGINE_REGISTRY.map(d => engineStateStub(env, d.id).healthSnapshot().catch(() => [])));
+      return snapshots.flat();
+    }
+  };
+}
@@ -0,0 +1,68 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, findAll, findFirst, hasClass, parseHtml, textContent } from './html';
+import type { HtmlElement } from './html';
+import articlePage from './__fixtures__/article.html?raw';
+
+const childTags = (el: HtmlElement) => el.children.filter(c => c.type === 'element').map(c => (c as HtmlElement).tag);
+
+describe('decodeEntities', () => {
+  it.each([
+    ['命名实体', 'a &amp; b &lt;c&gt; &quot;d&quot;', 'a & b <c> "d"'],
+    ['大小写不敏感', '&AMP; &Copy;', '& ©'],
+    ['十进制与十六进制', '&#39;&#x4E2D;&#X6587;', '\'中文'],
+    ['缺少分号', 'a &amp b', 'a & b'],
+    ['无法识别的保持原样', '&unknown; &#0; &#x110000;', '&unknown; &#0; &#x110000;']
+  ])('%s', (_name, input, expected) => {
+    expect(decodeEntities(input)).toBe(expected);
+  });
+});
+
+describe('parseHtml', () => {
+  const root = parseHtml(articlePage);
+  const article = findFirst(root, e => e.tag === 'article')!;
+
+  it('script 与 style 的内容按原始文本处理', () => {
+    const script = findFirst(root, e => e.tag === 'script')!;
+    expect(script.children).toEqual([{ type: 'text', text: 'window.dataLayer = [{ "page": "<article>" }];' }]);
+    expect(findAll(root, e => e.tag === 'article')).toHaveLength(1);
+    expect(textContent(findFirst(root, e => e.tag === 'head')!)).not.toContain('dataLayer');
+  });
+
+  it('未闭合的 <p> 和 <li> 在同级或块级元素前结束', () => {
+    expect(childTags(article)).toEqual(['h1', 'p', 'p', 'p', 'h2', 'p', 'p', 'pre', 'ul', 'table', 'img', 'div']);
+    const items = findAll(article, e => e.tag === 'li');
+    expect(items.map(li => textContent(li).trim())).toEqual([
+      'Each value has an owner',
+      'There is only one owner at a time',
+      'The value is dropped with its owner'
+    ]);
+  });
+
+  it('属性名小写并解码实体，void 元素没有子节点', () => {
+    const el = parseHtml('<A HREF="/a?x=1&amp;y=2" Data-Id=\'7\' hidden><IMG SRC=a.png>text</A>').children[0] as HtmlElement;
+    expect(el.tag).toBe('a');
+    expect(el.attrs).toEqual({ href: '/a?x=1&y=2', 'data-id': '7', hidden: '' });
+    expect(childTags(el)).toEqual(['img']);
+    expect(textContent(el)).toBe('text');
+  });
+
+  it('多余或错误嵌套的结束标签不会破坏结构', () => {
+    const root = parseHtml('<div><span>a</div></span><p>b</p></em>c');
+    expect(childTags(root)).toEqual(['div', 'p']);
+    expect(textContent(root)).toBe('abc');
+  });
+
+  it('hasClass 按空白分隔匹配', () => {
+    expect(hasClass(findFirst(root, e => e.tag === 'aside')!, 'sidebar')).toBe(true);
+    expect(hasClass(findFirst(root, e => e.tag === 'aside')!, 'side')).toBe(false);
+  });
+
+  it('深层未闭合标签限制嵌套深度，遍历不会栈溢出', () => {
+    const html = '<div>'.repeat(5000) + 'deep' + '<span>'.repeat(5000) + 'end';
+    const root = parseHtml(html);
+    expect(textContent(root)).toBe('deepend');
+    expect(findAll(root, e => e.tag === 'div')).toHaveLength(5000);
+    expect(findFirst(root, e => e.tag === 'span')).toBeDefined();
+  });
+});
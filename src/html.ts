@@ -0,0 +1,184 @@
+// ============================================================
+// 轻量 HTML 解析 - 实体解码与容错的 DOM 树，不依赖运行时 DOM
+// ============================================================
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  copy: '©', reg: '®', trade: '™', hellip: '…', middot: '·', bull: '•',
+  mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  laquo: '«', raquo: '»', times: '×', divide: '÷', deg: '°', plusmn: '±',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶',
+  frac12: '½', frac14: '¼', frac34: '¾', shy: '­', zwj: '‍', zwnj: '‌',
+  ensp: ' ', emsp: ' ', thinsp: ' ', larr: '←', rarr: '→', uarr: '↑', darr: '↓'
+};
+
+/**
+ * 解码 HTML 实体（常用命名实体与十进制/十六进制数字实体），无法识别的保持原样
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** 无结束标签的元素 */
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+/** 内容按原始文本处理的元素 */
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'noscript']);
+
+/** 遇到同名开始标签时隐式结束的元素 */
+const SELF_CLOSING_SIBLINGS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+
+/** 会隐式结束未闭合 <p> 的块级元素 */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'pre', 'section', 'table', 'ul'
+]);
+
+/** 元素树的最大嵌套深度，超出后的元素不再向下嵌套，保证递归遍历不会耗尽调用栈 */
+const MAX_DEPTH = 512;
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/?([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+const ATTR_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attrs;
+}
+
+/**
+ * 解析为元素树，容忍未闭合或错误嵌套的标签；根节点标签为 #root，嵌套深度不超过 MAX_DEPTH
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  let current = root;
+  let depth = 0;
+
+  const close = (tag: string) => {
+    let levels = 1;
+    for (let node: HtmlElement | undefined = current; node && node !== root; node = node.parent, levels++) {
+      if (node.tag === tag) {
+        current = node.parent || root;
+        depth -= levels;
+        return;
+      }
+    }
+  };
+  const closeCurrent = () => {
+    current = current.parent || root;
+    depth--;
+  };
+
+  // 用于查找 raw text 标签的闭合位置；只转换 ASCII 字母，保证下标与原文一致
+  const lower = html.replace(/[A-Z]+/g, s => s.toLowerCase());
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    const token = match[0];
+    const rawTag = match[1];
+
+    if (!rawTag) {
+      if (token[0] !== '<' || token === '<') {
+        current.children.push({ type: 'text', text: decodeEntities(token) });
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (token[1] === '/') {
+      close(tag);
+      continue;
+    }
+
+    if (SELF_CLOSING_SIBLINGS.has(tag) && current.tag === tag) {
+      closeCurrent();
+    } else if (BLOCK_TAGS.has(tag) && current.tag === 'p') {
+      closeCurrent();
+    }
+
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttrs(match[2]), children: [], parent: current };
+    current.children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = lower.indexOf('</' + tag, TOKEN_PATTERN.lastIndex);
+      const stop = end === -1 ? html.length : end;
+      element.children.push({ type: 'text', text: html.slice(TOKEN_PATTERN.lastIndex, stop) });
+      const closeEnd = html.indexOf('>', stop);
+      TOKEN_PATTERN.lastIndex = end === -1 || closeEnd === -1 ? html.length : closeEnd + 1;
+    } else if (!VOID_TAGS.has(tag) && !/\/\s*$/.test(match[2]) && depth < MAX_DEPTH) {
+      current = element;
+      depth++;
+    }
+  }
+
+  return root;
+}
+
+/**
+ * 元素的纯文本内容（不含 script/style）
+ */
+export function textContent(node: HtmlNode): string {
+  if (node.type === 'text') return node.text;
+  if (node.tag === 'script' || node.tag === 'style') return '';
+  return node.children.map(textContent).join('');
+}
+
+/**
+ * 深度优先查找所有满足条件的元素
+ */
+export function findAll(root: HtmlElement, predicate: (el: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (el: HtmlElement) => {
+    for (const child of el.children) {
+      if (child.type !== 'element') continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+export function findFirst(root: HtmlElement, predicate: (el: HtmlElement) => boolean): HtmlElement | undefined {
+  for (const child of root.children) {
+    if (child.type !== 'element') continue;
+    if (predicate(child)) return child;
+    const found = findFirst(child, predicate);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * class 属性是否包含某个类名
+ */
+export function hasClass(el: HtmlElement, name: string): boolean {
+  return (el.attrs.class || '').split(/\s+/).includes(name);
+}
@@ -1,115 +1,123 @@
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { z } from "zod";
-import type { Env, SearchParams } from './types';
-import { DuckDuckGoEngine } from './engines/duckduckgo';
-import { SearXNGEngine } from './engines/searxng';
-import { ExaEngine } from './engines/exa';
-import { TavilyEngine } from './engines/tavily';
-import { MetasoEngine } from './engines/metaso';
-import { JinaEngine } from './engines/jina';
-import { SearchAggregator } from './aggregator';
-import { formatResults, formatResultsJson, formatResultsMarkdown, validateSearchParams } from './utils';
-import type { SearchEngine } from './engines/base';
+import type { Env, EngineOutcome, EngineResponse, ToolContext } from './types';
+import { TOOL_DEFINITIONS } from './tools';
+import { TOOL_HANDLERS } from './handlers';
+import { SessionStore, handleMcpHttp, handleSessionRequest } from './transport';
+import { SqliteSearchCache } from './cache';
+import type { CacheEntry } from './cache';
+import { SqliteHealthTracker, getCircuitConfig } from './health';
+import type { CircuitDecision, EngineHealth, EngineLatency } from './health';
 
-async function runUnifiedSearch(env: Env, args: any): Promise<any> {
-  const v = validateSearchParams(args);
-  if (!v.valid) {
-    return { content: [{ type: 'text', text: 'Error: ' + v.error }] };
-  }
-  
-  const timeout = parseInt(env.DEFAULT_TIMEOUT || '8000');
-  const engineNames = v.sanitized.engines.length > 0 ? v.sanitized.engines : ['duckduckgo'];
-  const engines: SearchEngine[] = [];
+export class UnifiedSearchMCP extends McpAgent<Env> {
+  server = new McpServer({ name: "unified-search", version: "1.0.0" });
+  private searchCache?: SqliteSearchCache;
+  private healthTracker?: SqliteHealthTracker;
+  private sessionStore?: SessionStore;
   
-  for (let i = 0; i < engineNames.length; i++) {
-    const n = String(engineNames[i]).toLowerCase();
-    if (n === 'duckduckgo') engines.push(new DuckDuckGoEngine(env, timeout));
-    if (n === 'searxng' && env.SEARXNG_URL) engines.push(new SearXNGEngine(env, timeout));
-    if (n === 'exa' && env.EXA_API_KEY) engines.push(new ExaEngine(env, timeout));
-    if (n === 'tavily' && env.TAVILY_API_KEY) engines.push(new TavilyEngine(env, timeout));
-    if (n === 'metaso' && env.METASO_API_KEY) engines.push(new MetasoEngine(env, timeout));
-    if (n === 'jina' && env.JINA_API_KEY) engines.push(new JinaEngine(env, timeout));
+  async init(): Promise<void> {
+    for (const tool of TOOL_DEFINITIONS) {
+      const handler = TOOL_HANDLERS[tool.name];
+      this.server.tool(tool.name, tool.description, tool.shape, async (args: any, extra) => {
+        const progressToken = extra._meta?.progressToken;
+        const context: ToolContext = { signal: extra.signal, waitUntil: promise => this.ctx.waitUntil(promise) };
+        if (progressToken !== undefined) {
+          context.onProgress = progress => {
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress: progress.progress, total: progress.total, message: progress.message }
+            }).catch(() => {});
+          };
+        }
+        return handler(this.env, args, context);
+      });
+    }
   }
 
-  if (engines.length === 0) {
-    engines.push(new DuckDuckGoEngine(env, timeout));
+  /**
+   * 共享状态 RPC：读取缓存
+   */
+  async cacheGet(keys: string[]): Promise<Record<string, EngineResponse>> {
+    return this.getSearchCache().get(keys);
   }
 
-  const responses = await Promise.all(engines.map(function(e) { return e.execute(v.sanitized); }));
-  const result = new SearchAggregator(v.sanitized.maxResults).aggregate(v.sanitized.query, responses);
-  
-  let output = '';
-  if (v.sanitized.outputFormat === 'json') {
-    output = formatResultsJson(result);
-  } else if (v.sanitized.outputFormat === 'markdown') {
-    output = formatResultsMarkdown(result);
-  } else {
-    output = formatResults(result);
+  /**
+   * 共享状态 RPC：写入缓存
+   */
+  async cachePut(entries: CacheEntry[]): Promise<void> {
+    this.getSearchCache().put(entries);
   }
-  
-  return { content: [{ type: 'text', text: output }] };
-}
 
-async function runConnectivityTest(env: Env): Promise<any> {
-  const names = ['duckduckgo', 'exa', 'tavily', 'metaso', 'jina'];
-  const timeout = 5000;
-  const lines: string[] = [];
-  lines.push('搜索引擎连通性测试');
-  lines.push('============================================================');
-  
-  for (let i = 0; i < names.length; i++) {
-    const name = names[i];
-    const start = Date.now();
-    let engine: any = null;
-    
-    if (name === 'duckduckgo') engine = new DuckDuckGoEngine(env, timeout);
-    if (name === 'exa' && env.EXA_API_KEY) engine = new ExaEngine(env, timeout);
-    if (name === 'tavily' && env.TAVILY_API_KEY) engine = new TavilyEngine(env, timeout);
-    if (name === 'metaso' && env.METASO_API_KEY) engine = new MetasoEngine(env, timeout);
-    if (name === 'jina' && env.JINA_API_KEY) engine = new JinaEngine(env, timeout);
-    
-    if (engine === null) {
-      lines.push(name + ' | SKIP | 未配置');
-      continue;
+  /**
+   * 共享状态 RPC：熔断判断
+   */
+  async healthCheck(engines: string[], allowProbe?: boolean): Promise<Record<string, CircuitDecision>> {
+    return this.getHealthTracker().check(engines, allowProbe);
+  }
+
+  /**
+   * 共享状态 RPC：记录引擎调用结果
+   */
+  async healthRecord(outcomes: EngineOutcome[]): Promise<void> {
+    this.getHealthTracker().record(outcomes);
+  }
+
+  /**
+   * 共享状态 RPC：健康度快照
+   */
+  async healthSnapshot(): Promise<EngineHealth[]> {
+    return this.getHealthTracker().snapshot();
+  }
+
+  /**
+   * /http 会话 RPC：该实例以会话 ID 命名，处理属于该会话的请求
+   */
+  async mcpSession(request: Request, sessionId: string, create: boolean): Promise<Response> {
+    return handleSessionRequest(request, this.env, this.getSessionStore(), promise => this.ctx.waitUntil(promise), sessionId, create);
+  }
+
+  /**
+   * /http 会话过期清理
+   */
+  async alarm(): Promise<void> {
+    await this.getSessionStore().expire(Date.now());
+  }
+
+  /**
+   * 共享状态 RPC：延迟分位数，用于计算对冲触发时间
+   */
+  async healthLatency(engines: string[]): Promise<Record<string, EngineLatency>> {
+    return this.getHealthTracker().latency(engines);
+  }
+
+  private getSessionStore(): SessionStore {
+    if (!this.sessionStore) {
+      this.sessionStore = new SessionStore(this.ctx.storage);
     }
-    
-    try {
-      const res = await engine.execute({ query: 'test', maxResults: 1 });
-      const lat = Date.now() - start;
-      if (res.error) {
-        lines.push(name + ' | FAIL | ' + lat + 'ms | ' + res.error);
-      } else {
-        lines.push(name + ' | OK | ' + lat + 'ms');
-      }
-    } catch (e) {
-      lines.push(name + ' | FAIL | 连接异常');
+    return this.sessionStore;
+  }
+
+  private getHealthTracker(): SqliteHealthTracker {
+    if (!this.healthTracker) {
+      this.healthTracker = new SqliteHealthTracker(this.ctx.storage.sql, getCircuitConfig(this.env));
     }
+    return this.healthTracker;
   }
-  
-  return { content: [{ type: 'text', text: lines.join('\n') }] };
-}
 
-export class UnifiedSearchMCP extends McpAgent<Env> {
-  server = new McpServer({ name: "unified-search", version: "1.0.0" });
-  
-  async init(): Promise<void> {
-    this.server.tool('unified_search', '聚合搜索', { query: z.string() }, async function(args) {
-      return runUnifiedSearch(this.env, args);
-    }.bind(this));
-    
-    this.server.tool('test_engines_connectivity', '连通性测试', {}, async function() {
-      return runConnectivityTest(this.env);
-    }.bind(this));
+  private getSearchCache(): SqliteSearchCache {
+    if (!this.searchCache) {
+      this.searchCache = new SqliteSearchCache(this.ctx.storage.sql);
+    }
+    return this.searchCache;
   }
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': '*'
     };
     
@@ -118,81 +126,7 @@ export default {
     }
 
     if (url.pathname === '/http') {
-      if (request.method === 'GET') {
-        return new Response('MCP HTTP Active', { headers: corsHeaders });
-      }
-      
-      const body = await request.json() as any;
-      let res: any = {};
-      
-      if (body.method === 'initialize') {
-        res = {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: { listChanged: false }
-          },
-          serverInfo: {
-            name: 'unified-search-mcp',
-            version: '1.0.0'
-          }
-        };
-      } else if (body.method === 'notifications/initialized') {
-        return new Response(JSON.stringify({ jsonrpc: '2.0', result: {}, id: body.id }), {
-          headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
-        });
-      } else if (body.method === 'tools/list') {
-        res = {
-          tools: [
-            {
-              name: 'unified_search',
-              description: '聚合多个搜索引擎进行搜索，返回去重排序后的结果',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  query: {
-                    type: 'string',
-                    description: '搜索关键词'
-                  },
-                  maxResults: {
-                    type: 'number',
-                    description: '最大结果数量，默认20'
-                  },
-                  outputFormat: {
-                    type: 'string',
-                    description: '输出格式: text, json, markdown'
-                  }
-                },
-                required: ['query']
-              }
-            },
-            {
-              name: 'test_engines_connectivity',
-              description: '测试所有搜索引擎的连通性和API有效性',
-              inputSchema: {
-                type: 'object',
-                properties: {}
-              }
-            }
-          ]
-        };
-      } else if (body.method === 'tools/call') {
-        const toolName = body.params.name;
-        const toolArgs = body.params.arguments || {};
-        if (toolName === 'unified_search') {
-          res = await runUnifiedSearch(env, toolArgs);
-        } else if (toolName === 'test_engines_connectivity') {
-          res = await runConnectivityTest(env);
-        } else {
-          res = { content: [{ type: 'text', text: 'Unknown tool: ' + toolName }] };
-        }
-      } else {
-        res = {};
-      }
-      
-      const responseBody = JSON.stringify({ jsonrpc: '2.0', result: res, id: body.id });
-      return new Response(responseBody, {
-        headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
-      });
+      return handleMcpHttp(request, env, ctx);
     }
     
     if (url.pathname === '/' || url.pathname === '/health') {
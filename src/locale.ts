@@ -0,0 +1,143 @@
+// ============================================================
+// 语言与地区 - 查询语言检测、各引擎地区参数映射
+// ============================================================
+
+import type { SearchParams } from './types';
+
+/**
+ * 本次搜索使用的语言与地区
+ */
+export interface ResolvedLocale {
+  /** 语言代码，如 zh-CN、ja */
+  language?: string;
+  /** 两位 ISO 国家/地区代码，如 CN、JP */
+  region?: string;
+  /** 是否由查询文本自动检测得到 */
+  detected: boolean;
+}
+
+/**
+ * 按文字系统检测语言，拉丁字母无法可靠区分语言，返回 undefined
+ * 假名优先于汉字判断，避免日文被识别为中文
+ */
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u3040-\u30ff]/, 'ja'],
+  [/[\uac00-\ud7af\u1100-\u11ff]/, 'ko'],
+  [/[\u4e00-\u9fff\u3400-\u4dbf]/, 'zh-CN'],
+  [/[\u0400-\u04ff]/, 'ru'],
+  [/[\u0600-\u06ff]/, 'ar'],
+  [/[\u0590-\u05ff]/, 'he'],
+  [/[\u0e00-\u0e7f]/, 'th'],
+  [/[\u0370-\u03ff]/, 'el']
+];
+
+/** 语言未带地区时的默认地区 */
+const DEFAULT_REGIONS: Record<string, string> = {
+  zh: 'CN',
+  ja: 'JP',
+  ko: 'KR',
+  ru: 'RU',
+  ar: 'SA',
+  he: 'IL',
+  th: 'TH',
+  el: 'GR'
+};
+
+export function detectLanguage(text: string): string | undefined {
+  return SCRIPT_LANGUAGES.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * 语言代码的主语言部分，如 zh-CN → zh
+ */
+export function primaryLanguage(language: string): string {
+  return language.split('-')[0].toLowerCase();
+}
+
+function regionOf(language: string): string | undefined {
+  const subtag = language.split('-')[1];
+  if (subtag && /^[a-z]{2}$/i.test(subtag)) {
+    return subtag.toUpperCase();
+  }
+  return DEFAULT_REGIONS[primaryLanguage(language)];
+}
+
+/**
+ * 请求指定了 language 或 region 时直接使用，否则按查询文本自动检测
+ */
+export function resolveLocale(params: Pick<SearchParams, 'query' | 'language' | 'region'>): ResolvedLocale | undefined {
+  if (params.language || params.region) {
+    return {
+      language: params.language,
+      region: params.region ?? (params.language ? regionOf(params.language) : undefined),
+      detected: false
+    };
+  }
+  const language = detectLanguage(params.query);
+  return language ? { language, region: regionOf(language), detected: true } : undefined;
+}
+
+/**
+ * DuckDuckGo kl 参数，格式为 地区-语言，如 cn-zh、jp-jp、us-en
+ */
+const DDG_REGIONS: Record<string, string> = {
+  CN: 'cn-zh',
+  TW: 'tw-tzh',
+  HK: 'hk-tzh',
+  JP: 'jp-jp',
+  KR: 'kr-kr',
+  US: 'us-en',
+  GB: 'uk-en',
+  DE: 'de-de',
+  FR: 'fr-fr',
+  ES: 'es-es',
+  IT: 'it-it',
+  RU: 'ru-ru',
+  BR: 'br-pt',
+  IN: 'in-en'
+};
+
+export function toDuckDuckGoRegion(locale: ResolvedLocale): string | undefined {
+  if (locale.region) {
+    return DDG_REGIONS[locale.region]
+      ?? locale.region.toLowerCase() + '-' + (locale.language ? primaryLanguage(locale.language) : 'en');
+  }
+  return undefined;
+}
+
+/**
+ * Accept-Language 请求头，如 "zh-CN,zh;q=0.9,en;q=0.5"
+ */
+export function toAcceptLanguage(locale: ResolvedLocale | undefined): string {
+  if (!locale?.language) return 'en-US,en;q=0.5';
+  const primary = primaryLanguage(locale.language);
+  const tags = [locale.language, primary, 'en'].filter((t, i, all) => all.indexOf(t) === i);
+  return tags.map((t, i) => (i === 0 ? t : t + ';q=' + (1 - i * 0.2).toFixed(1))).join(',');
+}
+
+/**
+ * Tavily country 参数使用英文国家名
+ */
+const TAVILY_COUNTRIES: Record<string, string> = {
+  CN: 'china',
+  TW: 'taiwan',
+  HK: 'hong kong',
+  JP: 'japan',
+  KR: 'south korea',
+  US: 'united states',
+  GB: 'united kingdom',
+  DE: 'germany',
+  FR: 'france',
+  ES: 'spain',
+  IT: 'italy',
+  RU: 'russia',
+  BR: 'brazil',
+  IN: 'india',
+  SG: 'singapore',
+  CA: 'canada',
+  AU: 'australia'
+};
+
+export function toTavilyCountry(locale: ResolvedLocale | undefined): string | undefined {
+  return locale?.region ? TAVILY_COUNTRIES[locale.region] : undefined;
+}
@@ -0,0 +1,191 @@
+// ============================================================
+// 查询语法解析 - site: / -term / "phrase" / filetype: / intitle:
+// 解析一次，各引擎翻译为自身支持的形式，其余由聚合器后置过滤
+// ============================================================
+
+import type { SearchResult } from './types';
+import { CJK_CHAR, foldText } from './tokenizer';
+
+/**
+ * 结构化查询
+ */
+export interface ParsedQuery {
+  /** 去掉运算符后的普通关键词 */
+  text: string;
+  /** 必须包含的短语 */
+  phrases: string[];
+  /** 不得包含的词或短语 */
+  excludeTerms: string[];
+  /** 限定站点（域名，可带路径前缀） */
+  sites: string[];
+  excludeSites: string[];
+  /** 文件类型扩展名，不含点 */
+  fileTypes: string[];
+  /** 标题必须包含的词 */
+  inTitle: string[];
+}
+
+/**
+ * 可以原样写进查询字符串的运算符
+ */
+export type QueryOperator = 'phrase' | 'exclude' | 'site' | 'filetype' | 'intitle';
+
+export const ALL_OPERATORS: readonly QueryOperator[] = ['phrase', 'exclude', 'site', 'filetype', 'intitle'];
+
+/** [-][name:]("quoted" | word) */
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function normalizeDomain(value: string): string {
+  return value.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? '"' + value + '"' : value;
+}
+
+/**
+ * 解析查询字符串，无法识别的 name: 前缀按普通关键词处理
+ */
+export function parseQuery(raw: string): ParsedQuery {
+  const parsed: ParsedQuery = { text: '', phrases: [], excludeTerms: [], sites: [], excludeSites: [], fileTypes: [], inTitle: [] };
+  const words: string[] = [];
+  const input = raw.replace(/[\u201c\u201d\uff02]/g, '"');
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, minus, rawName, quoted, word] = match;
+    const value = (quoted ?? word ?? '').trim();
+    const name = rawName?.toLowerCase();
+    const negated = minus === '-';
+
+    if (!value) continue;
+
+    if (name === 'site') {
+      (negated ? parsed.excludeSites : parsed.sites).push(normalizeDomain(value));
+    } else if ((name === 'filetype' || name === 'ext') && !negated) {
+      parsed.fileTypes.push(value.toLowerCase().replace(/^\./, ''));
+    } else if (name === 'intitle' && !negated) {
+      parsed.inTitle.push(value);
+    } else if (name) {
+      // 未知前缀（如 http:、c:）保留为普通关键词
+      words.push(token.trim());
+    } else if (negated) {
+      parsed.excludeTerms.push(value);
+    } else if (quoted !== undefined) {
+      parsed.phrases.push(value);
+    } else {
+      words.push(value);
+    }
+  }
+
+  parsed.text = words.join(' ');
+  return parsed;
+}
+
+/**
+ * 按引擎支持的运算符重新生成查询字符串，不支持的运算符省略（交给后置过滤）
+ */
+export function formatQuery(parsed: ParsedQuery, operators: readonly QueryOperator[] = ALL_OPERATORS): string {
+  const parts: string[] = [];
+  if (parsed.text) {
+    parts.push(parsed.text);
+  }
+  const phrases = parsed.phrases.map(p => '"' + p + '"');
+  if (operators.includes('phrase')) {
+    parts.push(...phrases);
+  } else {
+    // 不支持引号时至少保留短语中的关键词
+    parts.push(...parsed.phrases);
+  }
+  if (operators.includes('intitle')) {
+    parts.push(...parsed.inTitle.map(t => 'intitle:' + quote(t)));
+  } else {
+    parts.push(...parsed.inTitle);
+  }
+  if (operators.includes('site') && parsed.sites.length > 0) {
+    parts.push(parsed.sites.map(s => 'site:' + s).join(' OR '));
+  }
+  if (operators.includes('site')) {
+    parts.push(...parsed.excludeSites.map(s => '-site:' + s));
+  }
+  if (operators.includes('filetype') && parsed.fileTypes.length > 0) {
+    parts.push(parsed.fileTypes.map(t => 'filetype:' + t).join(' OR '));
+  }
+  if (operators.includes('exclude')) {
+    parts.push(...parsed.excludeTerms.map(t => '-' + quote(t)));
+  }
+  return parts.join(' ');
+}
+
+/**
+ * 用于相关度计算的关键词：普通关键词、短语与标题词
+ */
+export function queryKeywords(parsed: ParsedQuery): string {
+  return [parsed.text, ...parsed.phrases, ...parsed.inTitle].filter(Boolean).join(' ');
+}
+
+/**
+ * URL 是否属于站点（含子域名，站点带路径时按前缀匹配）
+ */
+export function matchesDomain(url: URL, site: string): boolean {
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const slash = site.indexOf('/');
+  const siteHost = slash === -1 ? site : site.slice(0, slash);
+  const sitePath = slash === -1 ? '' : site.slice(slash);
+  return (host === siteHost || host.endsWith('.' + siteHost)) && url.pathname.toLowerCase().startsWith(sitePath);
+}
+
+/**
+ * 文本是否包含该词：拉丁文按词边界匹配，含中日韩文字时按子串匹配
+ */
+function containsTerm(text: string, term: string): boolean {
+  const folded = foldText(term);
+  if (new RegExp(CJK_CHAR).test(folded)) {
+    return text.includes(folded);
+  }
+  const escaped = folded.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp('(^|[^\\p{L}\\p{N}])' + escaped + '($|[^\\p{L}\\p{N}])', 'u').test(text);
+}
+
+/**
+ * 后置过滤：结果是否满足全部运算符
+ * 站点和文件类型按 URL 判断，总是检查；短语、排除词和标题词已下推到引擎（pushed）时不再按标题和摘要检查
+ */
+export function matchesQuery(result: SearchResult, parsed: ParsedQuery, pushed: readonly QueryOperator[] = []): boolean {
+  let url: URL | undefined;
+  try {
+    url = new URL(result.url);
+  } catch {
+    url = undefined;
+  }
+
+  if (parsed.sites.length > 0 && !(url && parsed.sites.some(s => matchesDomain(url!, s)))) {
+    return false;
+  }
+  if (url && parsed.excludeSites.some(s => matchesDomain(url!, s))) {
+    return false;
+  }
+  if (parsed.fileTypes.length > 0 && !(url && parsed.fileTypes.some(t => url!.pathname.toLowerCase().endsWith('.' + t)))) {
+    return false;
+  }
+
+  const title = foldText(result.title);
+  const text = title + ' ' + foldText(result.snippet);
+  if (!pushed.includes('intitle') && parsed.inTitle.some(t => !containsTerm(title, t))) {
+    return false;
+  }
+  if (!pushed.includes('phrase') && parsed.phrases.some(p => !containsTerm(text, p))) {
+    return false;
+  }
+  if (!pushed.includes('exclude') && parsed.excludeTerms.some(t => containsTerm(text, t))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 是否包含需要后置过滤的运算符
+ */
+export function hasOperators(parsed: ParsedQuery): boolean {
+  return parsed.phrases.length + parsed.excludeTerms.length + parsed.sites.length +
+    parsed.excludeSites.length + parsed.fileTypes.length + parsed.inTitle.length > 0;
+}
@@ -0,0 +1,209 @@
+// ============================================================
+// 排序策略 - legacy / rrf / bm25 / weighted
+// ============================================================
+
+import type { Env, SearchResult, ResultSource } from './types';
+import { resolveEngine } from './engines/registry';
+import { foldText, tokenize } from './tokenizer';
+
+/**
+ * 排序策略
+ * - legacy: 原有的启发式加分
+ * - rrf: 对各引擎原始排名做倒数排名融合
+ * - bm25: 基于标题和摘要的 BM25 文本相关度
+ * - weighted: 各引擎原生分数归一化后按引擎权重加权
+ */
+export type RankingStrategy = 'legacy' | 'rrf' | 'bm25' | 'weighted';
+
+export const RANKING_STRATEGIES: readonly RankingStrategy[] = ['legacy', 'rrf', 'bm25', 'weighted'];
+
+/** 默认保持原有排序，其他策略通过 ranking 参数或 RANKING_STRATEGY 启用 */
+export const DEFAULT_RANKING: RankingStrategy = 'legacy';
+
+/**
+ * 排序选项
+ */
+export interface RankingOptions {
+  strategy: RankingStrategy;
+  /** 引擎权重，键为引擎 id，未列出的引擎权重为 1 */
+  engineWeights: Record<string, number>;
+}
+
+const RRF_K = 60;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * 解析 "exa=1.5,duckduckgo=0.8" 形式的权重配置
+ */
+export function parseEngineWeights(value: string | undefined): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const pair of (value || '').split(',')) {
+    const [name, raw] = pair.split('=').map(s => s.trim());
+    const weight = Number(raw);
+    const descriptor = name ? resolveEngine(name) : undefined;
+    if (descriptor && Number.isFinite(weight) && weight >= 0) {
+      weights[descriptor.id] = weight;
+    }
+  }
+  return weights;
+}
+
+/**
+ * 合并部署默认值与请求参数得到排序选项
+ */
+export function getRankingOptions(
+  env: Env,
+  strategy?: RankingStrategy,
+  engineWeights?: Record<string, number>
+): RankingOptions {
+  const envStrategy = RANKING_STRATEGIES.find(s => s === env.RANKING_STRATEGY);
+  return {
+    strategy: strategy || envStrategy || DEFAULT_RANKING,
+    engineWeights: { ...parseEngineWeights(env.ENGINE_WEIGHTS), ...engineWeights }
+  };
+}
+
+export function getSources(result: SearchResult): ResultSource[] {
+  return result.sources || [{ engine: result.source, rank: 1, score: result.score, snippet: result.snippet }];
+}
+
+function engineWeight(options: RankingOptions, engine: string): number {
+  const id = resolveEngine(engine)?.id ?? engine.toLowerCase();
+  return options.engineWeights[id] ?? 1;
+}
+
+/**
+ * 原有启发式：标题/摘要命中、完全匹配、多源确认、原生分数等加分
+ */
+function rankLegacy(results: SearchResult[], query: string): number[] {
+  const queryTerms = tokenize(query);
+
+  return results.map(result => {
+    let score = 0;
+
+    const titleTerms = tokenize(result.title);
+    const snippetTerms = tokenize(result.snippet);
+
+    // 标题匹配权重高
+    for (const term of queryTerms) {
+      if (titleTerms.includes(term)) {
+        score += 10;
+      }
+      if (snippetTerms.includes(term)) {
+        score += 3;
+      }
+    }
+
+    // 完全匹配标题加分
+    if (foldText(result.title).includes(foldText(query).trim())) {
+      score += 20;
+    }
+
+    // 多源确认加分
+    const sources = getSources(result);
+    score += 15 * (sources.length - 1);
+
+    // 原始分数加权（取各引擎原生分数的最大值）
+    const nativeScore = Math.max(0, ...sources.map(s => s.score || 0));
+    if (nativeScore) {
+      score += nativeScore * 5;
+    }
+
+    // 有日期的加分（更可靠）
+    if (result.publishedDate) {
+      score += 3;
+    }
+
+    // snippet 完整度
+    if (result.snippet.length > 100) {
+      score += 5;
+    }
+
+    return score;
+  });
+}
+
+/**
+ * 倒数排名融合：score = Σ weight / (k + rank)
+ */
+function rankRrf(results: SearchResult[], options: RankingOptions): number[] {
+  return results.map(result =>
+    getSources(result).reduce((sum, s) => sum + engineWeight(options, s.engine) / (RRF_K + s.rank), 0)
+  );
+}
+
+/**
+ * 以候选结果集合为语料的 BM25
+ */
+function rankBm25(results: SearchResult[], query: string): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const docs = results.map(r => tokenize(r.title + ' ' + r.snippet));
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, docs.length);
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docs.filter(d => d.includes(term)).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+
+  return docs.map(doc => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.filter(t => t === term).length;
+      if (tf === 0) continue;
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / Math.max(1, avgLength));
+      score += idf.get(term)! * (tf * (BM25_K1 + 1)) / norm;
+    }
+    return score;
+  });
+}
+
+/**
+ * 各引擎原生分数在本引擎内做 min-max 归一化（无原生分数时按排名），再按引擎权重求和
+ */
+function rankWeighted(results: SearchResult[], options: RankingOptions): number[] {
+  const ranges = new Map<string, { min: number; max: number; maxRank: number }>();
+  for (const result of results) {
+    for (const s of getSources(result)) {
+      const range = ranges.get(s.engine) || { min: Infinity, max: -Infinity, maxRank: 1 };
+      if (s.score !== undefined) {
+        range.min = Math.min(range.min, s.score);
+        range.max = Math.max(range.max, s.score);
+      }
+      range.maxRank = Math.max(range.maxRank, s.rank);
+      ranges.set(s.engine, range);
+    }
+  }
+
+  return results.map(result =>
+    getSources(result).reduce((sum, s) => {
+      const range = ranges.get(s.engine)!;
+      const normalized = s.score !== undefined && range.max > range.min
+        ? (s.score - range.min) / (range.max - range.min)
+        : 1 - (s.rank - 1) / range.maxRank;
+      return sum + engineWeight(options, s.engine) * normalized;
+    }, 0)
+  );
+}
+
+/**
+ * 按所选策略计算 relevanceScore
+ */
+export function rankResults(results: SearchResult[], query: string, options: RankingOptions): SearchResult[] {
+  let scores: number[];
+  switch (options.strategy) {
+    case 'legacy':
+      scores = rankLegacy(results, query);
+      break;
+    case 'bm25':
+      scores = rankBm25(results, query);
+      break;
+    case 'weighted':
+      scores = rankWeighted(results, options);
+      break;
+    default:
+      scores = rankRrf(results, options);
+  }
+  return results.map((result, i) => ({ ...result, relevanceScore: scores[i] }));
+}
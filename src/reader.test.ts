@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from './types';
+import { readUrl, truncateContent } from './reader';
+
+const ARTICLE = '<html><head><title>Slow page</title></head><body><article><p>'
+  + 'This paragraph is long enough to count as the main content of the page. '.repeat(5)
+  + '</p></article></body></html>';
+
+/** 先发送 head，之后每 interval 毫秒发送一小段，总共持续约 duration 毫秒 */
+function slowBody(head: string, interval: number, duration: number): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let elapsed = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  return new ReadableStream<Uint8Array>({
+    start: controller => controller.enqueue(encoder.encode(head)),
+    pull: controller => new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        elapsed += interval;
+        if (elapsed >= duration) {
+          controller.enqueue(encoder.encode('</body></html>'));
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode('<p>more</p>'));
+        }
+        resolve();
+      }, interval);
+    }),
+    cancel: () => clearTimeout(timer)
+  });
+}
+
+/** fetch 桩：不理会 signal，模拟已开始传输、无法靠 fetch 自身中止的响应体 */
+function stubFetch(respond: (url: string) => Response): void {
+  vi.stubGlobal('fetch', async (url: string) => respond(url));
+}
+
+describe('readUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('超时覆盖响应体的读取', async () => {
+    stubFetch(() => new Response(slowBody('<html><body>', 100, 3000), { headers: { 'Content-Type': 'text/html' } }));
+    const started = Date.now();
+    const page = await readUrl({ DEFAULT_TIMEOUT: '300' } as Env, 'https://example.com/slow', { maxChars: 1000, reader: 'builtin' });
+    expect(page.error).toMatch(/^Timeout/);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('调用方取消时中止正在读取的响应体', async () => {
+    stubFetch(() => new Response(slowBody('<html><body>', 100, 3000), { headers: { 'Content-Type': 'text/html' } }));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+    const started = Date.now();
+    const page = await readUrl({} as Env, 'https://example.com/slow', { maxChars: 1000, reader: 'builtin' }, controller.signal);
+    expect(page.error).toBe('Cancelled');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('按响应头拒绝不支持的类型和过大的页面', async () => {
+    stubFetch(url => url.endsWith('.pdf')
+      ? new Response('%PDF', { headers: { 'Content-Type': 'application/pdf' } })
+      : new Response('', { headers: { 'Content-Type': 'text/html', 'Content-Length': String(64 * 1024 * 1024) } }));
+    const options = { maxChars: 1000, reader: 'builtin' } as const;
+    expect((await readUrl({} as Env, 'https://example.com/a.pdf', options)).error).toBe('不支持的内容类型: application/pdf');
+    expect((await readUrl({} as Env, 'https://example.com/huge', options)).error).toMatch(/^页面过大/);
+  });
+
+  it('提取正文并按 maxChars 截断', async () => {
+    stubFetch(() => new Response(ARTICLE, { headers: { 'Content-Type': 'text/html; charset=utf-8' } }));
+    const page = await readUrl({} as Env, 'https://example.com/article', { maxChars: 100, reader: 'builtin' });
+    expect(page.error).toBeUndefined();
+    expect(page.title).toBe('Slow page');
+    expect(page.truncated).toBe(true);
+    expect(page.content.length).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('truncateContent', () => {
+  it('优先在段落边界截断', () => {
+    const content = 'a'.repeat(60) + '\n\n' + 'b'.repeat(60);
+    expect(truncateContent(content, 100)).toBe('a'.repeat(60));
+  });
+
+  it('没有合适的段落边界时退到空白处', () => {
+    expect(truncateContent('word '.repeat(30), 52)).toBe('word '.repeat(10).trim());
+  });
+});
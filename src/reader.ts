@@ -0,0 +1,246 @@
+// ============================================================
+// 网页读取 - 抓取页面并提取正文，可选 Jina Reader (r.jina.ai)
+// ============================================================
+
+import type { Env, PageContent, PageReader } from './types';
+import { extractPage } from './extract';
+import { normalizeDate } from './dates';
+
+export interface ReadOptions {
+  maxChars: number;
+  reader: PageReader;
+}
+
+/** 内置提取的正文少于该长度时，auto 模式改用 Jina Reader */
+const MIN_CONTENT_CHARS = 200;
+
+/** 页面最多读取的字节数 */
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * 带超时的 fetch，调用方取消时一并中止；超时和取消覆盖到 read 读完响应体为止
+ */
+async function fetchWithTimeout<T>(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal: AbortSignal | undefined,
+  read: (response: Response, signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(new Error(`Timeout after ${timeout}ms`)), timeout);
+  const onCancel = () => controller.abort(new Error('Cancelled'));
+  if (signal?.aborted) {
+    onCancel();
+  } else {
+    signal?.addEventListener('abort', onCancel);
+  }
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return await read(response, controller.signal);
+  } catch (error) {
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onCancel);
+  }
+}
+
+/**
+ * 逐块读取响应体，读满 limit 字节后停止并取消其余部分；signal 中止时取消读取并抛出中止原因
+ */
+async function readBody(response: Response, limit: number, signal: AbortSignal): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array();
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let done = false;
+  const onAbort = () => reader.cancel(signal.reason).catch(() => {});
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener('abort', onAbort);
+  }
+  try {
+    while (size < limit && !signal.aborted) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        done = true;
+        break;
+      }
+      chunks.push(chunk.value);
+      size += chunk.value.byteLength;
+    }
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+    if (!done) {
+      reader.cancel().catch(() => {});
+    }
+  }
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+
+  const bytes = new Uint8Array(Math.min(size, limit));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * 按 Content-Type 或 <meta charset> 解码，运行时不支持的编码按 UTF-8 处理
+ */
+function decodeBody(bytes: Uint8Array, contentType: string): string {
+  const head = new TextDecoder().decode(bytes.subarray(0, 2048));
+  const charset = (contentType.match(/charset=["']?([\w-]+)/i) || head.match(/<meta[^>]+charset=["']?([\w-]+)/i))?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * 在 maxChars 以内的最后一个段落边界截断，没有合适的段落边界时退到空白处
+ */
+export function truncateContent(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  const paragraph = content.lastIndexOf('\n\n', maxChars);
+  const space = content.lastIndexOf(' ', maxChars);
+  const boundary = paragraph > maxChars / 2 ? paragraph : space > maxChars * 0.8 ? space : maxChars;
+  return content.slice(0, boundary).trimEnd();
+}
+
+function toPage(url: string, page: Omit<PageContent, 'url' | 'length' | 'truncated'>, maxChars: number): PageContent {
+  const content = truncateContent(page.content, maxChars);
+  return { url, ...page, content, length: page.content.length, truncated: content.length < page.content.length };
+}
+
+async function readBuiltin(url: string, options: ReadOptions, timeout: number, signal?: AbortSignal): Promise<PageContent> {
+  return fetchWithTimeout(url, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5'
+    },
+    redirect: 'follow'
+  }, timeout, signal, (response, bodySignal) => readBuiltinBody(url, response, options, bodySignal));
+}
+
+async function readBuiltinBody(url: string, response: Response, options: ReadOptions, signal: AbortSignal): Promise<PageContent> {
+  if (!response.ok) {
+    response.body?.cancel().catch(() => {});
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  // 下载正文前先按响应头检查类型和大小
+  const contentType = response.headers.get('Content-Type') || '';
+  const isText = /text\/(plain|markdown)/i.test(contentType);
+  if (contentType && !isText && !/html|xml/i.test(contentType)) {
+    response.body?.cancel().catch(() => {});
+    throw new Error('不支持的内容类型: ' + contentType.split(';')[0]);
+  }
+  const length = parseInt(response.headers.get('Content-Length') || '');
+  if (length > MAX_PAGE_BYTES) {
+    response.body?.cancel().catch(() => {});
+    throw new Error('页面过大: ' + length + ' 字节');
+  }
+
+  // 未声明长度或长度不实时，最多读取 MAX_PAGE_BYTES 字节
+  const finalUrl = response.url && response.url !== url ? response.url : undefined;
+  const body = decodeBody(await readBody(response, MAX_PAGE_BYTES, signal), contentType);
+
+  if (isText) {
+    return toPage(url, { finalUrl, title: '', content: body.trim(), via: 'builtin' }, options.maxChars);
+  }
+
+  const page = extractPage(body, finalUrl || url);
+  return toPage(url, {
+    finalUrl,
+    title: page.title,
+    byline: page.byline,
+    publishedDate: page.publishedDate,
+    siteName: page.siteName,
+    content: page.markdown,
+    via: 'builtin'
+  }, options.maxChars);
+}
+
+async function readJina(env: Env, url: string, options: ReadOptions, timeout: number, signal?: AbortSignal): Promise<PageContent> {
+  if (!env.JINA_API_KEY) {
+    throw new Error('JINA_API_KEY not configured');
+  }
+
+  const data = await fetchWithTimeout('https://r.jina.ai/' + url, {
+    headers: {
+      'Authorization': `Bearer ${env.JINA_API_KEY}`,
+      'Accept': 'application/json',
+      'X-Return-Format': 'markdown'
+    }
+  }, timeout, signal, async (response, bodySignal) => {
+    const text = new TextDecoder().decode(await readBody(response, MAX_PAGE_BYTES, bodySignal));
+    if (!response.ok) {
+      throw new Error(`Jina Reader error: ${response.status} - ${text}`);
+    }
+    return JSON.parse(text) as {
+      data?: {
+        title?: string;
+        url?: string;
+        content?: string;
+        publishedTime?: string;
+      };
+    };
+  });
+
+  return toPage(url, {
+    finalUrl: data.data?.url && data.data.url !== url ? data.data.url : undefined,
+    title: data.data?.title || '',
+    publishedDate: normalizeDate(data.data?.publishedTime),
+    content: (data.data?.content || '').trim(),
+    via: 'jina'
+  }, options.maxChars);
+}
+
+/**
+ * 读取单个页面，失败时返回带 error 的空结果而不抛出
+ */
+export async function readUrl(env: Env, url: string, options: ReadOptions, signal?: AbortSignal): Promise<PageContent> {
+  const timeout = parseInt(env.DEFAULT_TIMEOUT || '8000');
+  const failed = (error: unknown, via: PageContent['via']): PageContent => ({
+    url,
+    title: '',
+    content: '',
+    length: 0,
+    truncated: false,
+    via,
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+
+  if (options.reader === 'jina') {
+    return readJina(env, url, options, timeout, signal).catch(error => failed(error, 'jina'));
+  }
+
+  let page: PageContent;
+  try {
+    page = await readBuiltin(url, options, timeout, signal);
+  } catch (error) {
+    page = failed(error, 'builtin');
+  }
+
+  // 内置提取失败或正文过少（如依赖脚本渲染的页面）时改用 Jina Reader
+  if (options.reader === 'auto' && env.JINA_API_KEY && !signal?.aborted && (page.error || page.length < MIN_CONTENT_CHARS)) {
+    try {
+      const fallback = await readJina(env, url, options, timeout, signal);
+      if (fallback.length > page.length) return fallback;
+    } catch {
+      // 保留内置提取的结果
+    }
+  }
+  return page;
+}
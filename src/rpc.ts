@@ -0,0 +1,213 @@
+// ============================================================
+// /http 端点的 JSON-RPC 2.0 处理
+// ============================================================
+
+import type { Env, ToolContext } from './types';
+import { listToolsJson } from './tools';
+import { TOOL_HANDLERS } from './handlers';
+
+/**
+ * JSON-RPC 标准错误码
+ */
+export const RpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+} as const;
+
+/**
+ * 支持的 MCP 协议版本，第一个为首选版本
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const SERVER_INFO = {
+  name: 'unified-search-mcp',
+  version: '1.0.0'
+};
+
+export type RpcId = string | number | null;
+
+/**
+ * 服务端发往客户端的通知
+ */
+export interface RpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * 单条消息的处理上下文，由传输层提供
+ */
+export interface RpcContext {
+  /** 发送与当前请求关联的通知（如 notifications/progress） */
+  notify?: (notification: RpcNotification) => void;
+  /** 当前请求的取消信号 */
+  signal?: AbortSignal;
+  /** 收到 notifications/cancelled 时取消对应的请求 */
+  cancelRequest?: (requestId: RpcId) => void;
+  /** 在响应返回后继续完成的后台任务 */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+export interface RpcRequest {
+  jsonrpc: '2.0';
+  id?: RpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface RpcResponse {
+  jsonrpc: '2.0';
+  id: RpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * 以 JSON-RPC 错误形式抛出，由分发器转换为 error 响应
+ */
+export class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export function errorResponse(id: RpcId, code: number, message: string, data?: unknown): RpcResponse {
+  const error: RpcResponse['error'] = { code, message };
+  if (data !== undefined) {
+    error.data = data;
+  }
+  return { jsonrpc: '2.0', id, error };
+}
+
+function isValidId(id: unknown): id is RpcId {
+  return id === null || typeof id === 'string' || typeof id === 'number';
+}
+
+export function isRequest(message: unknown): message is RpcRequest {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return false;
+  }
+  const m = message as Record<string, unknown>;
+  return m.jsonrpc === '2.0'
+    && typeof m.method === 'string'
+    && (!('id' in m) || isValidId(m.id))
+    && (m.params === undefined || (typeof m.params === 'object' && m.params !== null));
+}
+
+/**
+ * 客户端发来的 JSON-RPC 响应（如对服务端请求的回复），直接忽略
+ */
+export function isClientResponse(message: unknown): boolean {
+  if (!message || typeof message !== 'object') {
+    return false;
+  }
+  const m = message as Record<string, unknown>;
+  return m.jsonrpc === '2.0' && !('method' in m) && ('result' in m || 'error' in m);
+}
+
+function negotiateProtocolVersion(requested: unknown): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+async function callTool(env: Env, params: Record<string, any>, context: RpcContext): Promise<unknown> {
+  if (typeof params.name !== 'string') {
+    throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Missing tool name');
+  }
+  if (params.arguments !== undefined && (typeof params.arguments !== 'object' || params.arguments === null)) {
+    throw new RpcError(RpcErrorCode.INVALID_PARAMS, 'Tool arguments must be an object');
+  }
+
+  const handler = TOOL_HANDLERS[params.name];
+  if (!handler) {
+    return { content: [{ type: 'text', text: 'Unknown tool: ' + params.name }], isError: true };
+  }
+
+  // 仅当客户端提供 progressToken 时才推送进度
+  const toolContext: ToolContext = { signal: context.signal, waitUntil: context.waitUntil };
+  const progressToken = params._meta?.progressToken;
+  const notify = context.notify;
+  if (progressToken !== undefined && notify) {
+    toolContext.onProgress = progress => notify({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: progress.progress,
+        total: progress.total,
+        message: progress.message,
+        _meta: progress.data
+      }
+    });
+  }
+
+  try {
+    return await handler(env, params.arguments || {}, toolContext);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { content: [{ type: 'text', text: 'Error: ' + message }], isError: true };
+  }
+}
+
+async function dispatch(env: Env, request: RpcRequest, context: RpcContext): Promise<unknown> {
+  const params = request.params || {};
+
+  switch (request.method) {
+    case 'initialize':
+      return {
+        protocolVersion: negotiateProtocolVersion(params.protocolVersion),
+        capabilities: {
+          tools: { listChanged: false }
+        },
+        serverInfo: SERVER_INFO
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools: listToolsJson() };
+    case 'tools/call':
+      return callTool(env, params, context);
+    default:
+      throw new RpcError(RpcErrorCode.METHOD_NOT_FOUND, 'Method not found: ' + request.method);
+  }
+}
+
+/**
+ * 处理单条消息，通知和客户端响应返回 null
+ */
+export async function handleMessage(env: Env, message: unknown, context: RpcContext = {}): Promise<RpcResponse | null> {
+  if (isClientResponse(message)) {
+    return null;
+  }
+  if (!isRequest(message)) {
+    const id = message && typeof message === 'object' && isValidId((message as any).id) ? (message as any).id : null;
+    return errorResponse(id, RpcErrorCode.INVALID_REQUEST, 'Invalid Request');
+  }
+
+  // 通知：没有 id，不返回任何内容
+  if (!('id' in message)) {
+    if (message.method === 'notifications/cancelled' && context.cancelRequest && isValidId(message.params?.requestId)) {
+      context.cancelRequest(message.params!.requestId);
+    }
+    return null;
+  }
+
+  const id = message.id as RpcId;
+  try {
+    const result = await dispatch(env, message, context);
+    return { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    if (error instanceof RpcError) {
+      return errorResponse(id, error.code, error.message, error.data);
+    }
+    const text = error instanceof Error ? error.message : 'Unknown error';
+    return errorResponse(id, RpcErrorCode.INTERNAL_ERROR, 'Internal error', text);
+  }
+}
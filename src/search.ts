@@ -0,0 +1,318 @@
+// ============================================================
+// 搜索执行 - 并发调用引擎并聚合结果
+// 支持整体截止时间、成功数达标提前返回、慢引擎对冲、结果缓存、熔断
+// ============================================================
+
+import type { Env, SearchParams, SearchVertical, EngineResponse, EngineOutcome, AggregatedResponse, CacheStatus, SanitizedSearchParams } from './types';
+import { ENGINE_REGISTRY, DEFAULT_ENGINE_ID, createEngines, isEngineConfigured, supportsVertical } from './engines/registry';
+import type { EngineDescriptor, EngineInstance } from './engines/registry';
+import { SearchAggregator } from './aggregator';
+import { getRankingOptions } from './ranking';
+import { parseQuery } from './query';
+import { applyDomainPolicy, getDomainPolicy, sitesOutsidePolicy } from './domains';
+import { getDateWindow } from './dates';
+import { resolveLocale } from './locale';
+import { MAX_PAGE, decodeCursor, encodeCursor, resultFingerprints } from './cursor';
+import { enrichResults } from './enrich';
+import { buildCacheKey, getCacheTtl } from './cache';
+import type { SearchCache } from './cache';
+import type { CircuitDecision, EngineLatency, HealthTracker } from './health';
+
+/**
+ * 搜索执行选项
+ */
+export interface SearchOptions {
+  /** 每个引擎完成时回调，partial 为当前已完成引擎的聚合结果 */
+  onEngineDone?: (response: EngineResponse, partial: AggregatedResponse, completed: number, total: number) => void;
+  /** 调用方的取消信号，中止时所有引擎的外部请求一并中止 */
+  signal?: AbortSignal;
+  /** 结果缓存，未提供时不使用缓存 */
+  cache?: SearchCache;
+  /** 健康度与熔断，未提供时不熔断 */
+  health?: HealthTracker;
+  /** 缓存与健康度的写入交给 waitUntil 在响应后完成，未提供时在返回前等待写入 */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
+const COST_ORDER = { free: 0, freemium: 1, paid: 2 };
+
+/** 读取共享状态（缓存、健康度）最多等待的时间，同时不超过剩余的截止时间 */
+const STATE_READ_TIMEOUT_MS = 1000;
+
+/**
+ * 在 budget 毫秒内等待共享状态读取，超时或失败时返回 fallback
+ */
+async function readWithin<T>(read: () => Promise<T>, budget: number, fallback: T): Promise<T> {
+  if (budget <= 0) return fallback;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  const timeout = new Promise<T>(resolve => {
+    timeoutId = setTimeout(() => resolve(fallback), budget);
+  });
+  try {
+    return await Promise.race([read().catch(() => fallback), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 未被选中的已配置引擎，按费用从低到高作为备用
+ */
+function createBackupEngines(env: Env, selected: string[], timeout: number, vertical?: SearchVertical): EngineInstance[] {
+  const ids = ENGINE_REGISTRY
+    .filter(d => !selected.includes(d.id) && isEngineConfigured(d, env) && supportsVertical(d, vertical))
+    .sort((a, b) => COST_ORDER[a.costTier] - COST_ORDER[b.costTier])
+    .map(d => d.id);
+  return createEngines(env, ids, timeout);
+}
+
+export async function executeSearch(
+  env: Env,
+  params: SanitizedSearchParams,
+  options: SearchOptions = {}
+): Promise<AggregatedResponse> {
+  const startedAt = Date.now();
+  const timeout = parseInt(env.DEFAULT_TIMEOUT || '8000');
+  // 健康度只统计 p50 和 p95，HEDGE_PERCENTILE 不超过 50 时用 p50，否则用 p95
+  const hedgePercentile = parseInt(env.HEDGE_PERCENTILE || '95');
+  const engineNames = params.engines.length > 0 ? params.engines : [DEFAULT_ENGINE_ID];
+  const engines = createEngines(env, engineNames, timeout);
+  let backups = params.hedge ? createBackupEngines(env, engineNames, timeout, params.vertical) : [];
+  // 查询运算符只解析一次，域名黑白名单并入其中后下推到各引擎
+  const parsedQuery = params.parsedQuery ?? parseQuery(params.query);
+  const domains = getDomainPolicy(env, params);
+  // 未指定语言和地区时按查询文本检测，检测结果同样传给各引擎
+  const locale = resolveLocale(params);
+  const engineParams = {
+    ...params,
+    language: locale?.language,
+    region: locale?.region,
+    parsedQuery: applyDomainPolicy(parsedQuery, domains)
+  };
+  // 翻页：各引擎按游标中记录的页码请求，已返回过的结果不再出现
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  const pages = cursor?.pages || {};
+  const nextPages: Record<string, number> = { ...pages };
+  const engineIds = new Map<string, string>();
+  const pageOf = (id: string) => pages[id] ?? 1;
+  const paramsFor = (id: string): SearchParams => ({ ...engineParams, page: pageOf(id) > 1 ? pageOf(id) : undefined });
+  // 不支持翻页的引擎只返回第一页
+  const advance = ({ id, supports }: EngineDescriptor, response: EngineResponse) => {
+    engineIds.set(response.engine, id);
+    if (!response.error) {
+      nextPages[id] = supports.pagination && response.results.length > 0 && pageOf(id) < MAX_PAGE ? pageOf(id) + 1 : 0;
+    }
+  };
+  const outsidePolicy = sitesOutsidePolicy(parsedQuery, domains);
+  const skipReason = (descriptor: EngineDescriptor): string | undefined => {
+    if (outsidePolicy) return 'site: outside allowed domains';
+    if (!supportsVertical(descriptor, params.vertical)) return 'vertical ' + params.vertical + ' not supported';
+    if (pageOf(descriptor.id) === 0) return 'no more results';
+    if (pageOf(descriptor.id) > 1 && !descriptor.supports.pagination) return 'pagination not supported';
+    return undefined;
+  };
+
+  const aggregator = new SearchAggregator(params.maxResults, {
+    ranking: getRankingOptions(env, params.ranking, params.engineWeights),
+    similarityThreshold: params.similarityThreshold,
+    domains,
+    dateWindow: getDateWindow(params),
+    sortBy: params.sortBy,
+    seen: new Set(cursor?.seen)
+  });
+
+  // 截止、提前返回和调用方取消都通过同一个 controller 中止剩余引擎
+  const controller = new AbortController();
+  const onCancel = () => controller.abort(new Error('Cancelled'));
+  if (options.signal?.aborted) {
+    onCancel();
+  } else {
+    options.signal?.addEventListener('abort', onCancel);
+  }
+  const deadlineId = params.deadlineMs
+    ? setTimeout(() => controller.abort(new Error(`Timeout: deadline of ${params.deadlineMs}ms reached`)), params.deadlineMs)
+    : undefined;
+
+  const stateBudget = () => Math.min(
+    STATE_READ_TIMEOUT_MS,
+    params.deadlineMs ? startedAt + params.deadlineMs - Date.now() : Infinity
+  );
+  const writes: Promise<unknown>[] = [];
+
+  // 读取缓存（被跳过的引擎不读取），缓存不可用或超出读取时限时直接请求引擎
+  const cacheMode = params.cache || 'use';
+  const cache = options.cache;
+  const cacheStatus: CacheStatus | undefined = !cache ? undefined
+    : cacheMode === 'bypass' ? 'bypass'
+    : cacheMode === 'refresh' ? 'refresh'
+    : 'miss';
+  let hits: Record<string, EngineResponse> = {};
+  const keys = new Map<string, string>();
+  if (cache && cacheMode === 'use') {
+    await Promise.all(engines.filter(e => !skipReason(e.descriptor)).map(async ({ descriptor }) => {
+      keys.set(descriptor.id, await buildCacheKey(descriptor.id, paramsFor(descriptor.id)));
+    }));
+    if (keys.size > 0) {
+      hits = await readWithin(() => cache.get([...keys.values()]), stateBudget(), {});
+    }
+  }
+
+  // 熔断判断：未命中缓存的引擎才需要请求；备用引擎不占用半开探测名额
+  // 对冲时同时读取这些引擎的延迟分位数；健康度不可用或超出读取时限时不熔断，对冲按超时的一半触发
+  const health = options.health;
+  let decisions: Record<string, CircuitDecision> = {};
+  let latencies: Record<string, EngineLatency> = {};
+  if (health) {
+    const pending = engines
+      .filter(e => !hits[keys.get(e.descriptor.id) || ''] && !skipReason(e.descriptor))
+      .map(e => e.engine.getName());
+    backups = backups.filter(e => !skipReason(e.descriptor));
+    const budget = stateBudget();
+    const none: Record<string, CircuitDecision> = {};
+    const [primaryDecisions, backupDecisions, primaryLatencies] = await Promise.all([
+      pending.length > 0 ? readWithin(() => health.check(pending), budget, none) : none,
+      backups.length > 0 ? readWithin(() => health.check(backups.map(e => e.engine.getName()), false), budget, none) : none,
+      pending.length > 0 && backups.length > 0 ? readWithin(() => health.latency(pending), budget, {}) : {}
+    ]);
+    decisions = primaryDecisions;
+    latencies = primaryLatencies;
+    backups = backups.filter(e => backupDecisions[e.engine.getName()] !== 'skip');
+  }
+
+  const completed: EngineResponse[] = [];
+  const launched: Promise<EngineResponse>[] = [];
+  const fresh: { descriptor: EngineDescriptor; response: EngineResponse }[] = [];
+  const outcomes: EngineOutcome[] = [];
+  const onOutcome = (outcome: EngineOutcome) => outcomes.push(outcome);
+  let succeeded = 0;
+
+  const complete = (response: EngineResponse): EngineResponse => {
+    completed.push(response);
+    if (!response.error) {
+      succeeded++;
+    }
+    if (options.onEngineDone) {
+      const partial = { ...aggregator.aggregate(params.query, completed, parsedQuery), locale };
+      options.onEngineDone(response, partial, completed.length, launched.length);
+    }
+    if (params.minSuccessfulEngines && succeeded >= params.minSuccessfulEngines && !controller.signal.aborted) {
+      controller.abort(new Error(`Cancelled: ${succeeded} engines already succeeded`));
+    }
+    return response;
+  };
+
+  const run = async ({ descriptor, engine }: EngineInstance, hedgeFor?: string): Promise<EngineResponse> => {
+    const response = await engine.execute(paramsFor(descriptor.id), controller.signal, onOutcome);
+    advance(descriptor, response);
+    if (hedgeFor) {
+      response.hedgeFor = hedgeFor;
+    }
+    if (cacheStatus) {
+      response.cache = cacheStatus;
+    }
+    if (!response.error) {
+      fresh.push({ descriptor, response });
+    }
+    return complete(response);
+  };
+
+  for (const instance of engines) {
+    const hit = hits[keys.get(instance.descriptor.id) || ''];
+    if (hit) {
+      advance(instance.descriptor, hit);
+      launched.push(Promise.resolve(complete({ ...hit, latency: 0, cache: 'hit' })));
+      continue;
+    }
+    const reason = skipReason(instance.descriptor);
+    if (reason) {
+      nextPages[instance.descriptor.id] = 0;
+      const skipped = { engine: instance.engine.getName(), results: [], latency: 0, error: 'Skipped: ' + reason };
+      launched.push(Promise.resolve(complete(skipped)));
+      continue;
+    }
+    if (decisions[instance.engine.getName()] === 'skip') {
+      const skipped = { engine: instance.engine.getName(), results: [], latency: 0, error: 'Skipped: circuit open' };
+      launched.push(Promise.resolve(complete(skipped)));
+      continue;
+    }
+
+    const primary = run(instance);
+    launched.push(primary);
+
+    if (backups.length > 0) {
+      const name = instance.engine.getName();
+      const latency = latencies[name];
+      const delay = latency ? (hedgePercentile <= 50 ? latency.p50 : latency.p95) : timeout / 2;
+      const hedgeId = setTimeout(() => {
+        const backup = backups.shift();
+        if (backup && !controller.signal.aborted) {
+          launched.push(run(backup, name));
+        }
+      }, delay);
+      primary.finally(() => clearTimeout(hedgeId));
+    }
+  }
+
+  // 对冲引擎会在等待过程中追加到 launched
+  try {
+    for (let i = 0; i < launched.length; i++) {
+      await launched[i];
+    }
+  } finally {
+    if (deadlineId !== undefined) {
+      clearTimeout(deadlineId);
+    }
+    options.signal?.removeEventListener('abort', onCancel);
+  }
+
+  // 健康度写入失败不影响本次结果
+  if (health && outcomes.length > 0) {
+    writes.push(health.record(outcomes).catch(() => {}));
+  }
+
+  // 写入缓存，写缓存失败不影响本次结果
+  if (cache && cacheMode !== 'bypass' && fresh.length > 0) {
+    writes.push(Promise.all(fresh.map(async ({ descriptor, response }) => ({
+      key: await buildCacheKey(descriptor.id, paramsFor(descriptor.id)),
+      response: { ...response, hedgeFor: undefined, cache: undefined },
+      ttl: getCacheTtl(descriptor, env)
+    }))).then(entries => cache.put(entries)).catch(() => {}));
+  }
+  if (options.waitUntil) {
+    writes.forEach(options.waitUntil);
+  } else {
+    await Promise.all(writes);
+  }
+
+  const response = aggregator.aggregate(params.query, await Promise.all(launched), parsedQuery);
+
+  // 本页还有结果未能返回的引擎不翻页，下次重新请求同一页（通常命中缓存），已返回的结果由 seen 剔除；
+  // 不支持翻页的引擎在第一页同样如此
+  for (const name of aggregator.enginesWithRemainder()) {
+    const id = engineIds.get(name);
+    if (id && (nextPages[id] > 0 || pageOf(id) === 1)) {
+      nextPages[id] = pageOf(id);
+    }
+  }
+
+  // 仍有引擎可以继续翻页时返回下一页游标
+  const hasMore = engines.some(e => (nextPages[e.descriptor.id] ?? 1) > 0);
+  const next = hasMore && response.results.length > 0
+    ? encodeCursor({
+      query: params.query,
+      pages: nextPages,
+      seen: [...(cursor?.seen || []), ...resultFingerprints(response.results)]
+    })
+    : undefined;
+
+  // full 模式下，排名靠前但引擎未返回正文的结果抓取页面补全，同样受整体截止时间约束
+  if (params.includeContent === 'full' && params.contentMaxChars) {
+    response.results = await enrichResults(env, response.results, {
+      maxChars: params.contentMaxChars,
+      deadline: params.deadlineMs ? startedAt + params.deadlineMs : undefined,
+      signal: options.signal
+    });
+  }
+
+  return { ...response, locale, cursor: next };
+}
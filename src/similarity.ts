@@ -0,0 +1,77 @@
+// ============================================================
+// 近似重复检测 - 基于 shingle 的 Jaccard 相似度，兼容中英文
+// ============================================================
+
+import type { SearchResult } from './types';
+import { CJK_CHAR, foldText } from './tokenizer';
+
+/**
+ * 默认相似度阈值，标题+摘要的 shingle 集合 Jaccard 相似度不低于该值视为同一内容
+ */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+/** 每个 shingle 包含的相邻词元数 */
+const SHINGLE_SIZE = 2;
+
+/** 单个中日韩文字，或不含中日韩文字的字母数字串 */
+const SHINGLE_TOKEN = new RegExp(CJK_CHAR + '|(?:(?!' + CJK_CHAR + ')[\\p{L}\\p{N}])+', 'gu');
+
+/**
+ * 切分词元：拉丁文按单词，中日韩文字按单字
+ */
+function shingleTokens(text: string): string[] {
+  return foldText(text).match(SHINGLE_TOKEN) || [];
+}
+
+/**
+ * 生成 shingle 集合，词元不足时退化为单词元集合
+ */
+export function shingles(text: string): Set<string> {
+  const tokens = shingleTokens(text);
+  const result = new Set<string>();
+  if (tokens.length < SHINGLE_SIZE) {
+    tokens.forEach(t => result.add(t));
+    return result;
+  }
+  for (let i = 0; i <= tokens.length - SHINGLE_SIZE; i++) {
+    result.add(tokens.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * 按顺序聚类近似重复结果：靠前的结果作为代表，其余挂到代表的 alternates 中
+ * results 需已按相关度排序
+ */
+export function clusterNearDuplicates(results: SearchResult[], threshold: number): SearchResult[] {
+  const representatives: { result: SearchResult; shingles: Set<string> }[] = [];
+
+  for (const result of results) {
+    // 图片结果标题往往雷同，只按 URL 去重
+    if (result.image) {
+      representatives.push({ result, shingles: new Set() });
+      continue;
+    }
+    const current = shingles(result.title + ' ' + result.snippet);
+    const match = representatives.find(r => !r.result.image && jaccard(r.shingles, current) >= threshold);
+    if (match) {
+      match.result.alternates = [
+        ...(match.result.alternates || []),
+        { title: result.title, url: result.url, source: result.source }
+      ];
+    } else {
+      representatives.push({ result: { ...result }, shingles: current });
+    }
+  }
+
+  return representatives.map(r => r.result);
+}
@@ -0,0 +1,44 @@
+// ============================================================
+// 分词 - 拉丁文按单词，中日韩文字按二元组切分
+// ============================================================
+
+/**
+ * 中日韩文字（假名、汉字、谚文），用于构造正则
+ */
+export const CJK_CHAR = '[\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af]';
+
+/** 连续的中日韩文字，或不含中日韩文字的字母数字串 */
+const TOKEN_RUN = new RegExp('(' + CJK_CHAR + '+)|(?:(?!' + CJK_CHAR + ')[\\p{L}\\p{N}])+', 'gu');
+
+/**
+ * 折叠大小写与全角/半角（NFKC），全角标点随之转为半角
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 切分为检索词元
+ * - 拉丁文、数字按单词切分，忽略单个字符
+ * - 中日韩文字按相邻二字切分（"机器学习" → 机器、器学、学习），单字保留为一个词元
+ * 中英文混排时两类词元同时产出，标点与空白作为分隔
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of foldText(text).matchAll(TOKEN_RUN)) {
+    const run = match[0];
+    if (!match[1]) {
+      if (run.length > 1) tokens.push(run);
+      continue;
+    }
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+}
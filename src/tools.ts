@@ -0,0 +1,156 @@
+// ============================================================
+// MCP 工具定义 - McpAgent 与 /http 共用的唯一 schema 来源
+// ============================================================
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ENGINE_IDS, ENGINE_NAMES, DEFAULT_ENGINE_ID, VERTICALS } from './engines/registry';
+import type { SearchVertical } from './types';
+import { RANKING_STRATEGIES, DEFAULT_RANKING } from './ranking';
+import type { RankingStrategy } from './ranking';
+import { DEFAULT_SIMILARITY_THRESHOLD } from './similarity';
+import { DEFAULT_CONTENT_CHARS, CONTENT_FETCH_LIMIT } from './enrich';
+
+/**
+ * 单次搜索允许的最大结果数（部署时可通过 MAX_RESULTS 进一步收紧）
+ */
+export const MAX_RESULTS_LIMIT = 50;
+
+/**
+ * deadlineMs 的取值范围
+ */
+export const MIN_DEADLINE_MS = 100;
+export const MAX_DEADLINE_MS = 60000;
+
+/**
+ * contentMaxChars 的取值范围
+ */
+export const MIN_CONTENT_CHARS = 100;
+export const MAX_CONTENT_CHARS = 50000;
+
+export const unifiedSearchShape = {
+  query: z.string().min(1)
+    .describe('搜索关键词，支持 site:、-排除词、"短语"、filetype:、intitle: / Search query; supports site:, -term, "phrase", filetype:, intitle:'),
+  maxResults: z.number().int().min(1).max(MAX_RESULTS_LIMIT).optional()
+    .describe('最大结果数量，默认20 / Maximum number of results, default 20'),
+  // 数组形式按注册表枚举校验；逗号分隔字符串交给 validateSearchParams 解析
+  engines: z.union([z.array(z.enum(ENGINE_NAMES)), z.string()]).optional()
+    .describe('使用的搜索引擎（' + ENGINE_IDS.join(', ') + '，支持别名），默认 ' + DEFAULT_ENGINE_ID + ' / Engines to query (' + ENGINE_IDS.join(', ') + ', aliases accepted), default ' + DEFAULT_ENGINE_ID),
+  vertical: z.enum(VERTICALS as [SearchVertical, ...SearchVertical[]]).optional()
+    .describe('搜索类别，默认 web；不支持该类别的引擎会被跳过 / Search vertical, default web; engines without support are skipped'),
+  dateRange: z.enum(['day', 'week', 'month', 'year', 'all']).optional()
+    .describe('时间范围 / Restrict results to a recent time range'),
+  from: z.string().optional()
+    .describe('起始日期（ISO-8601，如 2024-01-01），优先于 dateRange / Start date (ISO-8601), overrides dateRange'),
+  to: z.string().optional()
+    .describe('截止日期（ISO-8601），仅日期时包含当天 / End date (ISO-8601); date-only values include the whole day'),
+  sortBy: z.enum(['relevance', 'date']).optional()
+    .describe('排序方式，默认 relevance / Sort by relevance (default) or publish date, newest first'),
+  language: z.string().optional()
+    .describe('结果语言，如 zh-CN、en；与 region 均未指定时按查询自动检测 / Result language, e.g. zh-CN, en; auto-detected from the query when neither language nor region is set'),
+  region: z.string().regex(/^[a-z]{2}$/i).optional()
+    .describe('国家/地区代码，如 CN、JP、US / Two-letter country code, e.g. CN, JP, US'),
+  safeSearch: z.boolean().optional()
+    .describe('是否启用安全搜索 / Enable safe search'),
+  includeContent: z.enum(['none', 'snippet', 'full']).optional()
+    .describe('结果正文，默认 none；snippet 使用引擎原生返回的正文，full 另外抓取前 ' + CONTENT_FETCH_LIMIT + ' 条缺少正文的页面 / Page content per result, default none; snippet uses content engines return natively, full also fetches the top ' + CONTENT_FETCH_LIMIT + ' results that lack it'),
+  contentMaxChars: z.number().int().min(MIN_CONTENT_CHARS).max(MAX_CONTENT_CHARS).optional()
+    .describe('每条结果正文的最大字符数，默认 ' + DEFAULT_CONTENT_CHARS + ' / Maximum content characters per result, default ' + DEFAULT_CONTENT_CHARS),
+  includeAnswers: z.boolean().optional()
+    .describe('返回引擎原生的答案（含引用）、相关搜索、图片和要点，显示在结果列表上方 / Include engine-native answers with citations, related queries, images and highlights above the results'),
+  cursor: z.string().optional()
+    .describe('上一次返回的 cursor，用于获取下一页，query 需保持一致 / Cursor from a previous response to fetch the next page; query must match'),
+  outputFormat: z.enum(['text', 'json', 'markdown']).optional()
+    .describe('输出格式，默认 text / Output format, default text'),
+  deadlineMs: z.number().int().min(MIN_DEADLINE_MS).max(MAX_DEADLINE_MS).optional()
+    .describe('整体截止时间（毫秒），到时返回已有结果 / Overall deadline in ms; returns whatever has arrived'),
+  minSuccessfulEngines: z.number().int().min(1).optional()
+    .describe('成功引擎数达到该值即返回 / Return as soon as this many engines succeed'),
+  hedge: z.boolean().optional()
+    .describe('主引擎过慢时启用备用引擎 / Fire a backup engine when a primary is slower than usual'),
+  cache: z.enum(['use', 'bypass', 'refresh']).optional()
+    .describe('缓存模式，默认 use；refresh 忽略旧缓存并写入新结果 / Cache mode, default use; refresh skips stale entries and stores new ones'),
+  includeDomains: z.union([z.array(z.string()), z.string()]).optional()
+    .describe('只保留这些域名（含子域名）的结果，数组或逗号分隔 / Only keep results from these domains (subdomains included); array or comma-separated'),
+  excludeDomains: z.union([z.array(z.string()), z.string()]).optional()
+    .describe('排除这些域名的结果，数组或逗号分隔 / Drop results from these domains; array or comma-separated'),
+  boostDomains: z.record(z.number().min(0)).optional()
+    .describe('域名分数倍数，如 {"docs.python.org": 2} / Per-domain score multipliers, e.g. {"docs.python.org": 2}'),
+  maxPerDomain: z.number().int().min(1).optional()
+    .describe('单个域名最多返回的结果数 / Maximum results from a single domain'),
+  similarityThreshold: z.number().min(0).max(1).optional()
+    .describe('近似重复判定阈值（0-1），默认 ' + DEFAULT_SIMILARITY_THRESHOLD + '，越小合并越激进 / Near-duplicate similarity threshold (0-1), default ' + DEFAULT_SIMILARITY_THRESHOLD + '; lower merges more aggressively'),
+  ranking: z.enum(RANKING_STRATEGIES as [RankingStrategy, ...RankingStrategy[]]).optional()
+    .describe('排序策略，默认 ' + DEFAULT_RANKING + ' / Ranking strategy, default ' + DEFAULT_RANKING + ': legacy (heuristic boosts), rrf (reciprocal rank fusion), bm25, weighted'),
+  engineWeights: z.record(z.number().min(0)).optional()
+    .describe('引擎权重，如 {"exa": 1.5}，用于 rrf 和 weighted / Per-engine weights used by rrf and weighted, e.g. {"exa": 1.5}')
+};
+
+/**
+ * fetch_url 单次最多读取的页面数与正文长度范围
+ */
+export const MAX_FETCH_URLS = 10;
+export const MIN_FETCH_CHARS = 200;
+export const MAX_FETCH_CHARS = 100000;
+export const DEFAULT_FETCH_CHARS = 8000;
+
+export const fetchUrlShape = {
+  urls: z.union([z.string(), z.array(z.string()).min(1).max(MAX_FETCH_URLS)])
+    .describe('要读取的网址，单个或最多 ' + MAX_FETCH_URLS + ' 个 / URL or list of up to ' + MAX_FETCH_URLS + ' URLs to read'),
+  maxChars: z.number().int().min(MIN_FETCH_CHARS).max(MAX_FETCH_CHARS).optional()
+    .describe('每个页面正文的最大字符数，默认 ' + DEFAULT_FETCH_CHARS + ' / Maximum characters of content per page, default ' + DEFAULT_FETCH_CHARS),
+  reader: z.enum(['auto', 'builtin', 'jina']).optional()
+    .describe('提取方式，默认 auto：内置提取，内容过少且配置了 JINA_API_KEY 时改用 Jina Reader / Extractor, default auto: built-in, falling back to Jina Reader when content is thin and JINA_API_KEY is set'),
+  outputFormat: z.enum(['markdown', 'json']).optional()
+    .describe('输出格式，默认 markdown / Output format, default markdown')
+};
+
+/**
+ * 工具定义
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  shape: z.ZodRawShape;
+}
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: 'unified_search',
+    description: '聚合多个搜索引擎进行搜索，返回去重排序后的结果 / Search across multiple engines and return deduplicated, ranked results',
+    shape: unifiedSearchShape
+  },
+  {
+    name: 'fetch_url',
+    description: '读取网页并提取正文为 Markdown，含标题、作者和发布日期 / Fetch pages and extract the main content as Markdown with title, byline and publish date',
+    shape: fetchUrlShape
+  },
+  {
+    name: 'test_engines_connectivity',
+    description: '测试所有搜索引擎的连通性和API有效性 / Check connectivity and API keys of every engine',
+    shape: {}
+  },
+  {
+    name: 'list_engines',
+    description: '列出所有已注册的搜索引擎及其配置状态和能力 / List registered engines with their status and capabilities',
+    shape: {}
+  }
+];
+
+/**
+ * 生成 tools/list 返回的 JSON Schema
+ */
+export function listToolsJson() {
+  return TOOL_DEFINITIONS.map(tool => {
+    const { $schema, ...inputSchema } = zodToJsonSchema(z.object(tool.shape), {
+      target: 'jsonSchema7',
+      $refStrategy: 'none'
+    }) as Record<string, unknown>;
+
+    return {
+      name: tool.name,
+      description: tool.description,
+      inputSchema
+    };
+  });
+}
@@ -0,0 +1,432 @@
+// ============================================================
+// MCP Streamable HTTP 传输 (/http)
+// 带会话 ID 的请求转发到以会话 ID 命名的 Durable Object，会话、进行中的请求和事件日志都在同一实例中；
+// 事件日志写入该实例的 SQLite，断线后可通过 Last-Event-ID 续传。不带会话的请求在 Worker 中无状态处理
+// ============================================================
+
+import type { Env } from './types';
+import { RpcErrorCode, errorResponse, handleMessage, isClientResponse, isRequest } from './rpc';
+import type { RpcContext, RpcId, RpcResponse } from './rpc';
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+const MAX_STREAMS_PER_SESSION = 20;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Expose-Headers': SESSION_HEADER
+};
+
+const encoder = new TextEncoder();
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+interface StreamEvent {
+  id: string;
+  data: string;
+}
+
+/**
+ * 单个 SSE 流的事件日志，支持多个订阅者和断点续传
+ */
+class EventLog {
+  done: boolean;
+  private subscribers = new Set<ReadableStreamDefaultController<Uint8Array>>();
+
+  constructor(readonly id: string, private store?: SessionStore, readonly events: StreamEvent[] = [], done = false) {
+    this.done = done;
+  }
+
+  push(message: unknown): void {
+    if (this.done) return;
+    const event = { id: this.id + '/' + (this.events.length + 1), data: JSON.stringify(message) };
+    this.events.push(event);
+    this.store?.appendEvent(this.id, this.events.length, event.data);
+    for (const controller of this.subscribers) {
+      this.send(controller, event);
+    }
+  }
+
+  close(): void {
+    this.done = true;
+    this.store?.closeStream(this.id);
+    for (const controller of this.subscribers) {
+      try {
+        controller.close();
+      } catch {
+        // 订阅者已断开
+      }
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * 从第 offset 个事件之后开始订阅，先回放历史再推送新事件
+   */
+  subscribe(offset = 0): ReadableStream<Uint8Array> {
+    let current: ReadableStreamDefaultController<Uint8Array>;
+    return new ReadableStream<Uint8Array>({
+      start: controller => {
+        current = controller;
+        for (const event of this.events.slice(offset)) {
+          this.send(controller, event);
+        }
+        if (this.done) {
+          controller.close();
+        } else {
+          this.subscribers.add(controller);
+        }
+      },
+      cancel: () => {
+        this.subscribers.delete(current);
+      }
+    });
+  }
+
+  private send(controller: ReadableStreamDefaultController<Uint8Array>, event: StreamEvent): void {
+    try {
+      controller.enqueue(encoder.encode('id: ' + event.id + '\nevent: message\ndata: ' + event.data + '\n\n'));
+    } catch {
+      this.subscribers.delete(controller);
+    }
+  }
+}
+
+/**
+ * 会话 Durable Object 内的状态：会话记录和事件日志存于 SQLite，订阅者和进行中的请求只在内存中
+ */
+export class SessionStore {
+  /** 尚未结束的流 */
+  private streams = new Map<string, EventLog>();
+  /** 进行中的请求，用于响应 notifications/cancelled */
+  readonly inflight = new Map<RpcId, AbortController>();
+
+  constructor(private storage: DurableObjectStorage) {}
+
+  private get sql(): SqlStorage {
+    return this.storage.sql;
+  }
+
+  private exists(): boolean {
+    return this.sql.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'mcp_session'").toArray().length > 0;
+  }
+
+  private lastSeen(): number | undefined {
+    if (!this.exists()) return undefined;
+    return this.sql.exec<{ last_seen: number }>('SELECT last_seen FROM mcp_session').toArray()[0]?.last_seen;
+  }
+
+  async create(now: number): Promise<void> {
+    this.sql.exec('CREATE TABLE IF NOT EXISTS mcp_session (id INTEGER PRIMARY KEY CHECK (id = 1), last_seen INTEGER NOT NULL)');
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS mcp_streams (
+      id TEXT PRIMARY KEY,
+      opened_at INTEGER NOT NULL,
+      done INTEGER NOT NULL DEFAULT 0
+    )`);
+    this.sql.exec(`CREATE TABLE IF NOT EXISTS mcp_events (
+      stream_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      PRIMARY KEY (stream_id, seq)
+    )`);
+    this.sql.exec('INSERT OR REPLACE INTO mcp_session (id, last_seen) VALUES (1, ?)', now);
+    await this.storage.setAlarm(now + SESSION_TTL_MS);
+  }
+
+  /**
+   * 刷新最后访问时间，会话不存在或已过期时返回 false
+   */
+  touch(now: number): boolean {
+    const lastSeen = this.lastSeen();
+    if (lastSeen === undefined || now - lastSeen > SESSION_TTL_MS) {
+      return false;
+    }
+    this.sql.exec('UPDATE mcp_session SET last_seen = ?', now);
+    return true;
+  }
+
+  /**
+   * 定时检查：过期则清理，否则按最后访问时间重新设定闹钟
+   */
+  async expire(now: number): Promise<void> {
+    const lastSeen = this.lastSeen();
+    if (lastSeen === undefined) return;
+    if (now - lastSeen > SESSION_TTL_MS) {
+      this.destroy();
+    } else {
+      await this.storage.setAlarm(lastSeen + SESSION_TTL_MS);
+    }
+  }
+
+  destroy(): void {
+    for (const controller of this.inflight.values()) {
+      controller.abort(new Error('Session closed'));
+    }
+    for (const log of this.streams.values()) {
+      log.close();
+    }
+    this.inflight.clear();
+    this.sql.exec('DROP TABLE IF EXISTS mcp_events');
+    this.sql.exec('DROP TABLE IF EXISTS mcp_streams');
+    this.sql.exec('DROP TABLE IF EXISTS mcp_session');
+  }
+
+  openStream(): EventLog {
+    const log = new EventLog(crypto.randomUUID(), this);
+    this.streams.set(log.id, log);
+    this.sql.exec('INSERT INTO mcp_streams (id, opened_at) VALUES (?, ?)', log.id, Date.now());
+
+    // 只保留最近的若干个流用于续传
+    const count = this.sql.exec<{ count: number }>('SELECT COUNT(*) AS count FROM mcp_streams').one().count;
+    if (count > MAX_STREAMS_PER_SESSION) {
+      const stale = this.sql.exec<{ id: string }>(
+        'SELECT id FROM mcp_streams WHERE done = 1 ORDER BY opened_at LIMIT ?', count - MAX_STREAMS_PER_SESSION
+      ).toArray();
+      for (const { id } of stale) {
+        this.sql.exec('DELETE FROM mcp_events WHERE stream_id = ?', id);
+        this.sql.exec('DELETE FROM mcp_streams WHERE id = ?', id);
+      }
+    }
+    return log;
+  }
+
+  /**
+   * 查找可续传的流；实例重启后未结束的流无法继续推送，按已结束处理
+   */
+  getStream(id: string): EventLog | undefined {
+    const live = this.streams.get(id);
+    if (live) return live;
+
+    const stream = this.sql.exec<{ id: string }>('SELECT id FROM mcp_streams WHERE id = ?', id).toArray()[0];
+    if (!stream) return undefined;
+    const events = this.sql.exec<{ seq: number; data: string }>(
+      'SELECT seq, data FROM mcp_events WHERE stream_id = ? ORDER BY seq', id
+    ).toArray().map(row => ({ id: id + '/' + row.seq, data: row.data }));
+    return new EventLog(id, undefined, events, true);
+  }
+
+  appendEvent(streamId: string, seq: number, data: string): void {
+    this.sql.exec('INSERT OR REPLACE INTO mcp_events (stream_id, seq, data) VALUES (?, ?, ?)', streamId, seq, data);
+  }
+
+  closeStream(streamId: string): void {
+    this.streams.delete(streamId);
+    if (this.exists()) {
+      this.sql.exec('UPDATE mcp_streams SET done = 1 WHERE id = ?', streamId);
+    }
+  }
+}
+
+/**
+ * 处理单条消息：请求登记到会话以便被 notifications/cancelled 取消
+ */
+async function processMessage(
+  env: Env,
+  store: SessionStore | undefined,
+  waitUntil: WaitUntil,
+  message: unknown,
+  notify?: RpcContext['notify']
+): Promise<RpcResponse | null> {
+  const context: RpcContext = { notify, waitUntil };
+  const inflight = store?.inflight;
+  let requestId: RpcId | undefined;
+
+  if (inflight && isRequest(message)) {
+    if ('id' in message) {
+      const controller = new AbortController();
+      requestId = message.id as RpcId;
+      inflight.set(requestId, controller);
+      context.signal = controller.signal;
+    } else {
+      context.cancelRequest = id => inflight.get(id)?.abort(new Error('Cancelled'));
+    }
+  }
+
+  try {
+    const response = await handleMessage(env, message, context);
+    // 已取消的请求不再发送响应
+    return context.signal?.aborted ? null : response;
+  } finally {
+    if (requestId !== undefined) {
+      inflight!.delete(requestId);
+    }
+  }
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function sseResponse(stream: ReadableStream<Uint8Array>, headers: Record<string, string> = {}): Response {
+  return new Response(stream, {
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...headers
+    }
+  });
+}
+
+function acceptsEventStream(request: Request): boolean {
+  return (request.headers.get('Accept') || '').includes('text/event-stream');
+}
+
+function sessionNotFound(): Response {
+  return jsonResponse(errorResponse(null, RpcErrorCode.INVALID_REQUEST, 'Session not found'), 404);
+}
+
+/**
+ * 解析请求体，返回消息列表或错误响应
+ */
+function parseBody(text: string): { messages: unknown[]; isBatch: boolean } | Response {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return jsonResponse(errorResponse(null, RpcErrorCode.PARSE_ERROR, 'Parse error'), 400);
+  }
+
+  const isBatch = Array.isArray(body);
+  const messages: unknown[] = isBatch ? body as unknown[] : [body];
+  if (messages.length === 0) {
+    return jsonResponse(errorResponse(null, RpcErrorCode.INVALID_REQUEST, 'Invalid Request'), 400);
+  }
+  return { messages, isBatch };
+}
+
+/**
+ * GET：带 Last-Event-ID 时续传之前的 SSE 流
+ */
+function handleGet(request: Request, store: SessionStore | undefined): Response {
+  if (!acceptsEventStream(request)) {
+    return new Response('MCP HTTP Active', { headers: CORS_HEADERS });
+  }
+
+  const lastEventId = request.headers.get('Last-Event-ID');
+  if (!store || !lastEventId) {
+    // 不提供独立的服务端推送流
+    return new Response('Method Not Allowed', { status: 405, headers: { ...CORS_HEADERS, Allow: 'POST, DELETE' } });
+  }
+
+  const separator = lastEventId.lastIndexOf('/');
+  const log = store.getStream(lastEventId.slice(0, separator));
+  const offset = parseInt(lastEventId.slice(separator + 1));
+  if (!log || !(offset >= 0)) {
+    return new Response('Unknown event id', { status: 404, headers: CORS_HEADERS });
+  }
+  return sseResponse(log.subscribe(offset));
+}
+
+async function handlePost(
+  request: Request,
+  env: Env,
+  waitUntil: WaitUntil,
+  store: SessionStore | undefined,
+  messages: unknown[],
+  isBatch: boolean,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const hasRequests = messages.some(m => isRequest(m) ? 'id' in m : !isClientResponse(m));
+  if (!hasRequests) {
+    await Promise.all(messages.map(m => processMessage(env, store, waitUntil, m)));
+    return new Response(null, { status: 202, headers: { ...CORS_HEADERS, ...headers } });
+  }
+
+  // 客户端接受 SSE 时，以流的形式推送进度通知和最终结果；只有会话内的流可以续传
+  if (acceptsEventStream(request)) {
+    const log = store ? store.openStream() : new EventLog(crypto.randomUUID());
+    const notify = (message: unknown) => log.push(message);
+    const work = Promise.all(messages.map(async m => {
+      const response = await processMessage(env, store, waitUntil, m, notify);
+      if (response) log.push(response);
+    })).finally(() => log.close());
+    waitUntil(work);
+    return sseResponse(log.subscribe(), headers);
+  }
+
+  const responses = await Promise.all(messages.map(m => processMessage(env, store, waitUntil, m)));
+  const filtered = responses.filter((r): r is RpcResponse => r !== null);
+  if (filtered.length === 0) {
+    return new Response(null, { status: 202, headers: { ...CORS_HEADERS, ...headers } });
+  }
+  return jsonResponse(isBatch ? filtered : filtered[0], 200, headers);
+}
+
+/**
+ * 在会话 Durable Object 中处理属于该会话的请求，create 为 true 时先创建会话
+ */
+export async function handleSessionRequest(
+  request: Request,
+  env: Env,
+  store: SessionStore,
+  waitUntil: WaitUntil,
+  sessionId: string,
+  create: boolean
+): Promise<Response> {
+  const now = Date.now();
+  const headers: Record<string, string> = {};
+  if (create) {
+    await store.create(now);
+    headers[SESSION_HEADER] = sessionId;
+  } else if (!store.touch(now)) {
+    return sessionNotFound();
+  }
+
+  switch (request.method) {
+    case 'GET':
+      return handleGet(request, store);
+    case 'POST': {
+      const parsed = parseBody(await request.text());
+      if (parsed instanceof Response) return parsed;
+      return handlePost(request, env, waitUntil, store, parsed.messages, parsed.isBatch, headers);
+    }
+    case 'DELETE':
+      store.destroy();
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    default:
+      return new Response('Method Not Allowed', { status: 405, headers: { ...CORS_HEADERS, Allow: 'GET, POST, DELETE' } });
+  }
+}
+
+function sessionStub(env: Env, sessionId: string) {
+  return env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName('session:' + sessionId));
+}
+
+/**
+ * 处理 /http 的所有请求
+ */
+export async function handleMcpHttp(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const sessionId = request.headers.get(SESSION_HEADER);
+  if (sessionId) {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return sessionNotFound();
+    }
+    return sessionStub(env, sessionId).mcpSession(request, sessionId, false);
+  }
+
+  switch (request.method) {
+    case 'GET':
+      return handleGet(request, undefined);
+    case 'POST': {
+      const text = await request.text();
+      const parsed = parseBody(text);
+      if (parsed instanceof Response) return parsed;
+
+      // initialize 请求创建新会话，之后该会话的所有请求都由同一个 Durable Object 处理
+      if (parsed.messages.some(m => isRequest(m) && m.method === 'initialize')) {
+        const id = crypto.randomUUID();
+        return sessionStub(env, id).mcpSession(new Request(request, { body: text }), id, true);
+      }
+      return handlePost(request, env, promise => ctx.waitUntil(promise), undefined, parsed.messages, parsed.isBatch);
+    }
+    case 'DELETE':
+      return jsonResponse(errorResponse(null, RpcErrorCode.INVALID_REQUEST, 'Missing session id'), 400);
+    default:
+      return new Response('Method Not Allowed', { status: 405, headers: { ...CORS_HEADERS, Allow: 'GET, POST, DELETE' } });
+  }
+}
@@ -2,6 +2,11 @@
 // 类型定义
 // ============================================================
 
+import type { UnifiedSearchMCP } from './index';
+import type { RankingStrategy } from './ranking';
+import type { ParsedQuery, QueryOperator } from './query';
+import type { ResolvedLocale } from './locale';
+
 /**
  * 搜索参数
  */
@@ -9,10 +14,116 @@ export interface SearchParams {
   query: string;
   maxResults?: number;
   dateRange?: 'day' | 'week' | 'month' | 'year' | 'all';
+  /** 搜索类别，默认 web */
+  vertical?: SearchVertical;
+  /** 自定义时间范围（ISO-8601），优先于 dateRange */
+  from?: string;
+  to?: string;
+  /** 结果排序方式，默认 relevance */
+  sortBy?: 'relevance' | 'date';
   engines?: string[];
   language?: string;
+  /** 两位国家/地区代码，如 CN、US */
+  region?: string;
   safeSearch?: boolean;
   outputFormat?: 'text' | 'json' | 'markdown';
+  /** 整体截止时间（毫秒），到时返回已完成引擎的结果 */
+  deadlineMs?: number;
+  /** 成功引擎数达到该值后立即返回 */
+  minSuccessfulEngines?: number;
+  /** 主引擎响应慢于历史延迟分位数时启用备用引擎 */
+  hedge?: boolean;
+  /** 结果缓存模式，默认 use */
+  cache?: 'use' | 'bypass' | 'refresh';
+  /** 近似重复判定阈值（0-1），默认 0.8 */
+  similarityThreshold?: number;
+  /** 排序策略，默认 legacy */
+  ranking?: RankingStrategy;
+  /** 引擎权重，键为引擎 id */
+  engineWeights?: Record<string, number>;
+  /** 只保留这些域名的结果（含子域名） */
+  includeDomains?: string[];
+  /** 排除这些域名的结果，与部署配置的 EXCLUDE_DOMAINS 合并 */
+  excludeDomains?: string[];
+  /** 域名 -> 分数倍数 */
+  boostDomains?: Record<string, number>;
+  /** 单个域名最多保留的结果数 */
+  maxPerDomain?: number;
+  /** 正文内容，默认 none；snippet 仅用引擎原生返回的正文，full 再抓取排名靠前的页面补全 */
+  includeContent?: ContentMode;
+  /** 每条结果正文的最大字符数 */
+  contentMaxChars?: number;
+  /** 是否请求引擎原生的答案、相关搜索、图片和要点 */
+  includeAnswers?: boolean;
+  /** 上一页返回的游标，用于获取下一页 */
+  cursor?: string;
+  /** 引擎请求的页码（从 1 开始），由游标换算后传给各引擎 */
+  page?: number;
+  /** 解析后的查询运算符，由 executeSearch 解析一次后传给各引擎 */
+  parsedQuery?: ParsedQuery;
+}
+
+/**
+ * 结果正文模式
+ */
+export type ContentMode = 'none' | 'snippet' | 'full';
+
+/**
+ * 校验并补全默认值后的搜索参数
+ */
+export type SanitizedSearchParams = SearchParams &
+  Required<Pick<SearchParams, 'maxResults' | 'engines' | 'outputFormat'>>;
+
+/**
+ * 字段级校验错误
+ */
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+/**
+ * 参数校验结果
+ */
+export type ValidationResult<T = SanitizedSearchParams> =
+  | { valid: true; sanitized: T; warnings: string[] }
+  | { valid: false; errors: ValidationIssue[] };
+
+/**
+ * 结果来源：某个引擎返回该结果时的原始信息
+ */
+export interface ResultSource {
+  engine: string;
+  /** 在该引擎结果中的原始排名，从 1 开始 */
+  rank: number;
+  /** 引擎原生分数 */
+  score?: number;
+  snippet: string;
+}
+
+/**
+ * 搜索类别
+ */
+export type SearchVertical = 'web' | 'news' | 'academic' | 'code' | 'images';
+
+/**
+ * 图片结果的附加信息，结果的 url 为图片所在页面
+ */
+export interface ImageInfo {
+  url: string;
+  thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  description?: string;
+}
+
+/**
+ * 被聚类到代表结果下的近似重复结果
+ */
+export interface ResultAlternate {
+  title: string;
+  url: string;
+  source: string;
 }
 
 /**
@@ -22,9 +133,65 @@ export interface SearchResult {
   title: string;
   url: string;
   snippet: string;
+  /** 首个返回该结果的引擎 */
   source: string;
+  /** 所有返回该结果的引擎，每个引擎一项 */
+  sources?: ResultSource[];
   publishedDate?: string;
+  score?: number;
   relevanceScore?: number;
+  /** 图片搜索结果的图片信息 */
+  image?: ImageInfo;
+  /** 内容近似、已被合并的其他结果 */
+  alternates?: ResultAlternate[];
+  /** 页面正文（Markdown 或纯文本），仅在 includeContent 为 snippet/full 时返回 */
+  content?: string;
+}
+
+/**
+ * 答案引用的来源
+ */
+export interface Citation {
+  title?: string;
+  url: string;
+}
+
+/**
+ * 引擎直接给出的答案（如 Tavily answer、SearXNG infobox）
+ */
+export interface EngineAnswer {
+  text: string;
+  citations: Citation[];
+}
+
+/**
+ * 单条结果的要点摘录与摘要（如 Exa highlights/summary）
+ */
+export interface ResultHighlight {
+  url: string;
+  title?: string;
+  highlights: string[];
+  summary?: string;
+}
+
+/**
+ * 引擎在结果列表之外返回的附加信息
+ */
+export interface EngineExtras {
+  answers?: EngineAnswer[];
+  relatedQueries?: string[];
+  images?: ImageInfo[];
+  highlights?: ResultHighlight[];
+}
+
+/**
+ * 聚合后的答案区，各项标注来源引擎
+ */
+export interface AnswerSection {
+  answers: (EngineAnswer & { engine: string })[];
+  relatedQueries: string[];
+  images: (ImageInfo & { engine: string })[];
+  highlights: (ResultHighlight & { engine: string })[];
 }
 
 /**
@@ -35,6 +202,37 @@ export interface EngineResponse {
   results: SearchResult[];
   latency: number;
   error?: string;
+  /** 作为哪个慢引擎的备用被启用 */
+  hedgeFor?: string;
+  /** 缓存状态 */
+  cache?: CacheStatus;
+  /** 实际发出的请求次数（含重试） */
+  attempts?: number;
+  /** 答案、相关搜索等附加信息，仅在 includeAnswers 时返回 */
+  extras?: EngineExtras;
+  /** 已由引擎执行的查询运算符，聚合时只对其余运算符做文本过滤 */
+  pushedOperators?: QueryOperator[];
+}
+
+/**
+ * 引擎结果的缓存状态
+ */
+export type CacheStatus = 'hit' | 'miss' | 'refresh' | 'bypass';
+
+/**
+ * 引擎执行状态
+ */
+export type EngineStatus = 'success' | 'error' | 'timeout' | 'cancelled' | 'skipped' | 'blocked';
+
+/**
+ * 单次引擎调用的结果，用于健康度统计（调用方取消的请求不计入）
+ */
+export interface EngineOutcome {
+  engine: string;
+  success: boolean;
+  latency: number;
+  error?: string;
+  at: number;
 }
 
 /**
@@ -46,14 +244,83 @@ export interface AggregatedResponse {
   results: SearchResult[];
   engines: {
     name: string;
-    status: 'success' | 'error' | 'timeout';
+    status: EngineStatus;
     latency: number;
     count: number;
     error?: string;
+    hedgeFor?: string;
+    cache?: CacheStatus;
+    attempts?: number;
   }[];
+  /** 使用的排序策略 */
+  ranking?: RankingStrategy;
+  /** 引擎原生答案、相关搜索、图片和要点，仅在 includeAnswers 且有内容时返回 */
+  answers?: AnswerSection;
+  /** 使用的语言与地区 */
+  locale?: ResolvedLocale;
+  /** 下一页游标，没有更多结果时不返回 */
+  cursor?: string;
+  warnings?: string[];
   processedAt: string;
 }
 
+/**
+ * 正文读取方式：auto 先用内置提取器，内容过少时回退到 Jina Reader
+ */
+export type PageReader = 'auto' | 'builtin' | 'jina';
+
+/**
+ * fetch_url 参数
+ */
+export interface FetchParams {
+  urls: string[];
+  /** 每个页面正文的最大字符数 */
+  maxChars: number;
+  reader: PageReader;
+  outputFormat: 'markdown' | 'json';
+}
+
+/**
+ * 读取到的页面正文
+ */
+export interface PageContent {
+  url: string;
+  /** 跟随重定向后的地址 */
+  finalUrl?: string;
+  title: string;
+  byline?: string;
+  publishedDate?: string;
+  siteName?: string;
+  /** Markdown 正文 */
+  content: string;
+  /** 截断前的正文长度 */
+  length: number;
+  truncated: boolean;
+  via: 'builtin' | 'jina';
+  error?: string;
+}
+
+/**
+ * 工具执行进度
+ */
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * 工具执行上下文，由传输层提供
+ */
+export interface ToolContext {
+  onProgress?: (progress: ToolProgress) => void;
+  /** 调用方取消（如 notifications/cancelled）时中止 */
+  signal?: AbortSignal;
+  /** 在响应返回后继续完成的后台任务（如写缓存） */
+  waitUntil?: (promise: Promise<unknown>) => void;
+}
+
 /**
  * 环境变量
  */
@@ -68,7 +335,17 @@ export interface Env {
   // 配置
   DEFAULT_TIMEOUT?: string;
   MAX_RESULTS?: string;
+  HEDGE_PERCENTILE?: string;
+  CACHE_TTL?: string;
+  CIRCUIT_FAILURE_THRESHOLD?: string;
+  CIRCUIT_COOLDOWN_MS?: string;
+  RANKING_STRATEGY?: string;
+  ENGINE_WEIGHTS?: string;
+  INCLUDE_DOMAINS?: string;
+  EXCLUDE_DOMAINS?: string;
+  BOOST_DOMAINS?: string;
+  MAX_PER_DOMAIN?: string;
 
   // Durable Object 绑定
-  MCP_OBJECT: DurableObjectNamespace;
+  MCP_OBJECT: DurableObjectNamespace<UnifiedSearchMCP>;
 }
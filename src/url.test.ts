@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUrl, unwrapRedirect } from './url';
+
+describe('canonicalizeUrl', () => {
+  it.each([
+    // 追踪参数
+    ['utm_* 参数', 'https://example.com/page?utm_source=x&utm_medium=y&id=5', 'example.com/page?id=5'],
+    ['点击 ID', 'https://example.com/a?gclid=1&fbclid=2&msclkid=3', 'example.com/a'],
+    ['大小写不敏感', 'https://example.com/p?UTM_Source=x&b=2&a=1', 'example.com/p?a=1&b=2'],
+    ['分享来源', 'https://www.bilibili.com/video/BV1xx?spm_id_from=333&vd_source=abc', 'bilibili.com/video/BV1xx'],
+
+    // 决定页面内容的参数保留
+    ['保留 ?v=', 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&si=abc', 'youtube.com/watch?v=dQw4w9WgXcQ'],
+    ['保留 ?id=', 'https://news.ycombinator.com/item?id=123&ref=hn', 'news.ycombinator.com/item?id=123'],
+    ['参数排序', 'https://example.com/s?q=test&page=2', 'example.com/s?page=2&q=test'],
+
+    // 协议、子域名与 AMP
+    ['忽略协议', 'http://example.com/a', 'example.com/a'],
+    ['www', 'https://www.example.com/x/', 'example.com/x'],
+    ['m.', 'https://m.example.com/article', 'example.com/article'],
+    ['mobile.', 'https://mobile.example.com/article', 'example.com/article'],
+    ['amp.', 'https://amp.example.com/story', 'example.com/story'],
+    ['/amp 路径', 'https://example.com/story/amp/', 'example.com/story'],
+    ['.amp.html', 'https://example.com/story.amp.html', 'example.com/story.html'],
+    ['?amp=1', 'https://example.com/story?amp=1', 'example.com/story'],
+    ['Google AMP 查看器', 'https://www.google.com/amp/s/example.com/story', 'example.com/story'],
+    ['AMP 缓存', 'https://example-com.cdn.ampproject.org/c/s/example.com/story', 'example.com/story'],
+
+    // 端口
+    ['http 默认端口', 'http://example.com:80/a', 'example.com/a'],
+    ['https 默认端口', 'https://example.com:443/a', 'example.com/a'],
+    ['非默认端口', 'https://example.com:8080/a', 'example.com:8080/a'],
+
+    // 片段
+    ['去除片段', 'https://example.com/a#section', 'example.com/a'],
+    ['保留 #! 路由', 'https://example.com/#!/route/1', 'example.com#!/route/1'],
+
+    // 百分号编码
+    ['解码非保留字符', 'https://example.com/%7euser', 'example.com/~user'],
+    ['保留字符编码统一为大写', 'https://example.com/a%2fb', 'example.com/a%2Fb'],
+    ['非 ASCII 字符', 'https://example.com/café', 'example.com/caf%C3%A9'],
+    ['小写编码', 'https://example.com/caf%c3%a9', 'example.com/caf%C3%A9'],
+    ['查询中的空格', 'https://example.com/s?q=a+b', 'example.com/s?q=a%20b'],
+
+    // 跳转链接
+    ['Google /url', 'https://www.google.com/url?q=https://example.com/page&sa=U&ved=abc', 'example.com/page'],
+    ['Bing /ck/a', 'https://www.bing.com/ck/a?!&&p=abc&u=a1aHR0cHM6Ly9leGFtcGxlLmNvbS9wYWdlP2lkPTc&ntb=1', 'example.com/page?id=7'],
+    ['百度转码页', 'https://m.baidu.com/from=844b/bd_page_type=1/tc?src=https%3A%2F%2Fexample.com%2Fpage', 'example.com/page'],
+    ['DuckDuckGo /l/', '//duckduckgo.com/l/?uddg=https%3A%2F%2Fexample.com%2Fpage&rut=abc', 'example.com/page'],
+    ['Yahoo RU=', 'https://r.search.yahoo.com/_ylt=A0/RV=2/RE=1/RO=10/RU=https%3a%2f%2fexample.com%2fpage/RK=2/RS=abc-', 'example.com/page'],
+    ['嵌套跳转', 'https://www.google.com/url?q=' + encodeURIComponent('https://duckduckgo.com/l/?uddg=' + encodeURIComponent('https://example.com/page')), 'example.com/page'],
+
+    // 非 http 链接
+    ['非 http 协议', 'MAILTO:User@Example.com', 'mailto:user@example.com']
+  ])('%s', (_name, input, expected) => {
+    expect(canonicalizeUrl(input)).toBe(expected);
+  });
+
+  it('同一页面的不同写法得到相同的键', () => {
+    const variants = [
+      'https://www.example.com/article/?utm_source=feed',
+      'http://m.example.com/article#comments',
+      'https://example.com:443/article/amp/',
+      '//duckduckgo.com/l/?uddg=' + encodeURIComponent('https://example.com/article')
+    ];
+    expect(new Set(variants.map(canonicalizeUrl)).size).toBe(1);
+  });
+});
+
+describe('unwrapRedirect', () => {
+  it.each([
+    ['非跳转链接原样返回', 'https://example.com/page?q=1', 'https://example.com/page?q=1'],
+    ['跳转目标不是 http 链接', 'https://www.google.com/url?q=javascript:alert(1)', 'https://www.google.com/url?q=javascript:alert(1)'],
+    ['百度加密链接无法解开', 'https://www.baidu.com/link?url=abcdef', 'https://www.baidu.com/link?url=abcdef'],
+    ['Bing 参数损坏', 'https://www.bing.com/ck/a?u=a1%%%', 'https://www.bing.com/ck/a?u=a1%%%'],
+    ['Facebook 外链', 'https://l.facebook.com/l.php?u=https%3A%2F%2Fexample.com%2F', 'https://example.com/'],
+    ['知乎外链', 'https://link.zhihu.com/?target=https%3A%2F%2Fexample.com%2Fa', 'https://example.com/a']
+  ])('%s', (_name, input, expected) => {
+    expect(unwrapRedirect(input)).toBe(expected);
+  });
+});
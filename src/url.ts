@@ -0,0 +1,155 @@
+// ============================================================
+// URL 规范化 - 解开跳转链接、去除追踪参数，用于结果去重
+// ============================================================
+
+/**
+ * 追踪参数，匹配时忽略大小写；新增时直接加入列表
+ */
+export const TRACKING_PARAMS: readonly string[] = [
+  // 广告点击 ID
+  'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+  // 邮件与营销平台
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'vero_id', 'oly_enc_id', 'oly_anon_id',
+  // 分享与来源标记
+  'igshid', 'si', 'spm', 'spm_id_from', 'scm', 'from', 'ref', 'ref_src', 'ref_url', 'share_source', 'share_medium',
+  'share_from', 'vd_source', 'wfr', 'amp'
+];
+
+/**
+ * 追踪参数前缀
+ */
+export const TRACKING_PARAM_PREFIXES: readonly string[] = ['utm_', 'pk_', 'mtm_', 'hmsr', 'hmpl', 'hmcu', 'hmkw', 'hmci'];
+
+/** 规范化时去掉的主机名前缀（移动版、AMP 版） */
+const HOST_PREFIXES = /^(?:www\d?|m|mobile|amp)\./;
+
+/** 最多连续解开的跳转层数 */
+const MAX_UNWRAP_DEPTH = 3;
+
+function parseUrl(url: string): URL | undefined {
+  try {
+    // 协议相对链接（如 DuckDuckGo 的 //duckduckgo.com/l/?uddg=...）按 https 处理
+    return new URL(url.startsWith('//') ? 'https:' + url : url);
+  } catch {
+    return undefined;
+  }
+}
+
+function isHttpUrl(value: string | null): value is string {
+  return !!value && /^https?:\/\//i.test(value);
+}
+
+/**
+ * Bing 的 u 参数形如 a1 + base64url(URL)
+ */
+function decodeBingTarget(value: string | null): string | null {
+  if (!value || !value.startsWith('a1')) return value;
+  try {
+    const base64 = value.slice(2).replace(/-/g, '+').replace(/_/g, '/');
+    return atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 若为已知搜索引擎或站点的跳转链接，返回目标地址，否则返回 undefined
+ */
+function redirectTarget(parsed: URL): string | undefined {
+  const host = parsed.hostname.toLowerCase();
+  const path = parsed.pathname;
+  const query = parsed.searchParams;
+  let target: string | null = null;
+
+  if (/(^|\.)duckduckgo\.com$/.test(host) && path.startsWith('/l/')) {
+    target = query.get('uddg');
+  } else if (/(^|\.)google\.[a-z.]+$/.test(host) && path === '/url') {
+    target = query.get('q') || query.get('url');
+  } else if (/(^|\.)google\.[a-z.]+$/.test(host) && path.startsWith('/amp/')) {
+    // Google AMP 查看器：/amp/s/example.com/path
+    target = path.replace(/^\/amp\/(s\/)?/, (_, s) => (s ? 'https://' : 'http://'));
+  } else if (host.endsWith('.cdn.ampproject.org') && /^\/[a-z]\//.test(path)) {
+    // AMP 缓存：/c/s/example.com/path
+    target = path.replace(/^\/[a-z]\/(s\/)?/, (_, s) => (s ? 'https://' : 'http://'));
+  } else if (/(^|\.)bing\.com$/.test(host) && path === '/ck/a') {
+    target = decodeBingTarget(query.get('u'));
+  } else if (/(^|\.)baidu\.com$/.test(host) && (path === '/tc' || path.endsWith('/tc'))) {
+    // 百度移动版转码页；/link?url= 为加密参数，无法离线解析
+    target = query.get('src');
+  } else if (/(^|\.)search\.yahoo\.com$/.test(host)) {
+    const match = path.match(/\/RU=([^/]+)\//);
+    target = match ? decodeURIComponent(match[1]) : null;
+  } else if (/^l\.(facebook|instagram)\.com$/.test(host)) {
+    target = query.get('u');
+  } else if (host === 'link.zhihu.com' || host === 'link.juejin.cn' || host === 'link.csdn.net') {
+    target = query.get('target');
+  }
+
+  return isHttpUrl(target) ? target : undefined;
+}
+
+/**
+ * 解开跳转链接，返回真实目标地址；非跳转链接原样返回
+ */
+export function unwrapRedirect(url: string): string {
+  let current = url;
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    const parsed = parseUrl(current);
+    let target: string | undefined;
+    try {
+      target = parsed && redirectTarget(parsed);
+    } catch {
+      // 目标地址编码错误时保留原链接
+    }
+    if (!target) break;
+    current = target;
+  }
+  return current;
+}
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.includes(key) || TRACKING_PARAM_PREFIXES.some(p => key.startsWith(p));
+}
+
+/**
+ * 统一百分号编码：非保留字符解码，其余编码统一为大写
+ */
+function normalizeEncoding(value: string): string {
+  return value.replace(/%[0-9a-f]{2}/gi, encoded => {
+    const char = String.fromCharCode(parseInt(encoded.slice(1), 16));
+    return /[A-Za-z0-9\-._~]/.test(char) ? char : encoded.toUpperCase();
+  });
+}
+
+/**
+ * 计算用于去重的规范 URL 键
+ * - 解开跳转链接，忽略协议、默认端口、www/m/amp 子域名与 AMP 路径
+ * - 去除追踪参数，其余参数按名称排序后保留
+ * - 去除片段（#! 形式的路由除外）和尾部斜杠，统一百分号编码
+ */
+export function canonicalizeUrl(url: string): string {
+  const parsed = parseUrl(unwrapRedirect(url.trim()));
+  if (!parsed || !/^https?:$/.test(parsed.protocol)) {
+    return url.trim().toLowerCase();
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '').replace(HOST_PREFIXES, '');
+  const port = parsed.port && parsed.port !== '80' && parsed.port !== '443' ? ':' + parsed.port : '';
+
+  const path = normalizeEncoding(parsed.pathname)
+    .replace(/\/{2,}/g, '/')
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(\.html?)?$/i, '$1')
+    .replace(/\/$/, '');
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = params.length > 0
+    ? '?' + params.map(([k, v]) => encodeURIComponent(k) + '=' + encodeURIComponent(v)).join('&')
+    : '';
+
+  const fragment = parsed.hash.startsWith('#!') ? normalizeEncoding(parsed.hash) : '';
+  return host + port + path + query + fragment;
+}
@@ -1,18 +1,154 @@
-import type { AggregatedResponse, SearchResult } from './types';
+import type { AggregatedResponse, AnswerSection, Env, FetchParams, PageContent, SearchParams, SearchResult, ValidationIssue, ValidationResult } from './types';
+import { DEFAULT_ENGINE_ID, VERTICALS, isEngineConfigured, resolveEngine, supportsVertical } from './engines/registry';
+import { MAX_RESULTS_LIMIT, MIN_DEADLINE_MS, MAX_DEADLINE_MS, MIN_CONTENT_CHARS, MAX_CONTENT_CHARS, MAX_FETCH_URLS, MIN_FETCH_CHARS, MAX_FETCH_CHARS, DEFAULT_FETCH_CHARS } from './tools';
+import { RANKING_STRATEGIES } from './ranking';
+import { normalizeDomain } from './query';
+import { decodeCursor } from './cursor';
+import { DEFAULT_CONTENT_CHARS } from './enrich';
+import type { EngineDescriptor } from './engines/registry';
+
+/**
+ * 列出返回该结果的引擎及其原始排名，如 "Exa #1, Tavily #3"
+ */
+function formatSources(result: SearchResult): string {
+  const sources = result.sources || [{ engine: result.source, rank: 1 }];
+  return sources.map(s => s.engine + ' #' + s.rank).join(', ');
+}
+
+/**
+ * 语言与地区，如 "zh-CN / CN（自动检测）"
+ */
+function formatLocale(response: AggregatedResponse): string {
+  const locale = response.locale!;
+  return [locale.language, locale.region].filter(Boolean).join(' / ') + (locale.detected ? '（自动检测）' : '');
+}
+
+/**
+ * 图片尺寸，如 " (1920x1080)"，未知时为空
+ */
+function formatImageSize(result: SearchResult): string {
+  const image = result.image;
+  return image?.width && image.height ? ' (' + image.width + 'x' + image.height + ')' : '';
+}
+
+/**
+ * 答案区的纯文本形式
+ */
+function formatAnswersText(answers: AnswerSection): string[] {
+  const lines: string[] = [];
+  lines.push('');
+  lines.push('============================================================');
+  lines.push('答案:');
+  lines.push('============================================================');
+  for (const answer of answers.answers) {
+    lines.push('');
+    lines.push('[' + answer.engine + '] ' + answer.text);
+    answer.citations.forEach((c, i) => {
+      lines.push('    [' + (i + 1) + '] ' + (c.title ? c.title + ' - ' : '') + c.url);
+    });
+  }
+  if (answers.highlights.length > 0) {
+    lines.push('');
+    lines.push('要点:');
+    for (const h of answers.highlights) {
+      lines.push('  ' + (h.title || h.url) + ' (' + h.engine + ')');
+      lines.push('    ' + h.url);
+      if (h.summary) lines.push('    摘要: ' + h.summary);
+      for (const text of h.highlights) {
+        lines.push('    - ' + text);
+      }
+    }
+  }
+  if (answers.images.length > 0) {
+    lines.push('');
+    lines.push('图片:');
+    for (const image of answers.images) {
+      lines.push('  ' + image.url + (image.description ? ' - ' + image.description : ''));
+    }
+  }
+  if (answers.relatedQueries.length > 0) {
+    lines.push('');
+    lines.push('相关搜索: ' + answers.relatedQueries.join(' | '));
+  }
+  return lines;
+}
+
+/**
+ * 答案区的 Markdown 形式
+ */
+function formatAnswersMarkdown(answers: AnswerSection): string[] {
+  const lines: string[] = [];
+  lines.push('## 答案');
+  lines.push('');
+  for (const answer of answers.answers) {
+    lines.push(answer.text.split('\n').map(line => '> ' + line).join('\n'));
+    lines.push('>');
+    lines.push('> — ' + answer.engine + (answer.citations.length > 0
+      ? '，引用: ' + answer.citations.map((c, i) => '[' + (i + 1) + '](' + c.url + ')').join(' ')
+      : ''));
+    lines.push('');
+  }
+  if (answers.highlights.length > 0) {
+    lines.push('### 要点');
+    lines.push('');
+    for (const h of answers.highlights) {
+      lines.push('- [' + (h.title || h.url) + '](' + h.url + ')' + (h.summary ? ': ' + h.summary : ''));
+      for (const text of h.highlights) {
+        lines.push('  - ' + text);
+      }
+    }
+    lines.push('');
+  }
+  if (answers.images.length > 0) {
+    lines.push('### 图片');
+    lines.push('');
+    for (const image of answers.images) {
+      lines.push('- [![' + (image.description || '') + '](' + (image.thumbnailUrl || image.url) + ')](' + image.url + ')');
+    }
+    lines.push('');
+  }
+  if (answers.relatedQueries.length > 0) {
+    lines.push('### 相关搜索');
+    lines.push('');
+    for (const query of answers.relatedQueries) {
+      lines.push('- ' + query);
+    }
+    lines.push('');
+  }
+  return lines;
+}
 
 export function formatResults(response: AggregatedResponse): string {
   const lines: string[] = [];
   lines.push('============================================================');
   lines.push('搜索查询: ' + response.query);
-  lines.push('找到 ' + response.totalResults + ' 条结果');
+  lines.push('找到 ' + response.totalResults + ' 条结果' + (response.ranking ? '（排序: ' + response.ranking + '）' : ''));
+  if (response.locale) {
+    lines.push('语言/地区: ' + formatLocale(response));
+  }
   lines.push('============================================================');
 
   lines.push('');
   lines.push('搜索引擎状态:');
   lines.push('------------------------------------------------------------');
   for (const engine of response.engines) {
-    const status = engine.status === 'success' ? 'OK' : 'FAIL';
-    lines.push('  ' + engine.name + ' | ' + status + ' | ' + engine.latency + 'ms');
+    const status = engine.status === 'success' ? 'OK' : engine.status === 'error' ? 'FAIL' : engine.status.toUpperCase();
+    const hedge = engine.hedgeFor ? ' | 备用: ' + engine.hedgeFor : '';
+    const cache = engine.cache === 'hit' ? ' | 缓存命中' : '';
+    const attempts = engine.attempts && engine.attempts > 1 ? ' | 请求 ' + engine.attempts + ' 次' : '';
+    lines.push('  ' + engine.name + ' | ' + status + ' | ' + engine.latency + 'ms' + hedge + cache + attempts);
+  }
+
+  if (response.warnings && response.warnings.length > 0) {
+    lines.push('');
+    lines.push('提示:');
+    for (const warning of response.warnings) {
+      lines.push('  - ' + warning);
+    }
+  }
+
+  if (response.answers) {
+    lines.push(...formatAnswersText(response.answers));
   }
 
   lines.push('');
@@ -26,10 +162,33 @@ export function formatResults(response: AggregatedResponse): string {
     lines.push('');
     lines.push('[' + num + '] ' + result.title);
     lines.push('    URL: ' + result.url);
+    if (result.image) {
+      lines.push('    图片: ' + result.image.url + formatImageSize(result));
+      if (result.image.thumbnailUrl) {
+        lines.push('    缩略图: ' + result.image.thumbnailUrl);
+      }
+    }
+    if (result.publishedDate) {
+      lines.push('    日期: ' + result.publishedDate.slice(0, 10));
+    }
+    lines.push('    来源: ' + formatSources(result));
+    if (result.alternates && result.alternates.length > 0) {
+      lines.push('    另见: ' + result.alternates.map(a => a.url).join(', '));
+    }
     lines.push('    ' + (result.snippet || '暂无摘要'));
+    if (result.content) {
+      lines.push('');
+      lines.push('    正文:');
+      lines.push(result.content.split('\n').map(line => '    ' + line).join('\n'));
+    }
     lines.push('------------------------------------------------------------');
   }
 
+  if (response.cursor) {
+    lines.push('');
+    lines.push('下一页 cursor: ' + response.cursor);
+  }
+
   return lines.join('\n');
 }
 
@@ -41,8 +200,24 @@ export function formatResultsMarkdown(response: AggregatedResponse): string {
   const lines: string[] = [];
   lines.push('# 搜索结果: ' + response.query);
   lines.push('');
-  lines.push('共找到 ' + response.totalResults + ' 条结果');
+  lines.push('共找到 ' + response.totalResults + ' 条结果' + (response.ranking ? '（排序: ' + response.ranking + '）' : ''));
   lines.push('');
+  if (response.locale) {
+    lines.push('语言/地区: ' + formatLocale(response));
+    lines.push('');
+  }
+
+  if (response.warnings && response.warnings.length > 0) {
+    for (const warning of response.warnings) {
+      lines.push('> ' + warning);
+    }
+    lines.push('');
+  }
+
+  if (response.answers) {
+    lines.push(...formatAnswersMarkdown(response.answers));
+  }
+
   lines.push('## 结果列表');
   lines.push('');
   
@@ -51,27 +226,476 @@ export function formatResultsMarkdown(response: AggregatedResponse): string {
     const num = i + 1;
     lines.push('### ' + num + '. ' + r.title);
     lines.push('');
+    if (r.image) {
+      lines.push('[![' + r.title + '](' + (r.image.thumbnailUrl || r.image.url) + ')](' + r.image.url + ')' + formatImageSize(r));
+      lines.push('');
+    }
     lines.push('URL: ' + r.url);
     lines.push('');
+    if (r.publishedDate) {
+      lines.push('日期: ' + r.publishedDate.slice(0, 10));
+      lines.push('');
+    }
+    lines.push('来源: ' + formatSources(r));
+    lines.push('');
+    if (r.alternates && r.alternates.length > 0) {
+      lines.push('另见: ' + r.alternates.map(a => '[' + a.title + '](' + a.url + ')').join('、'));
+      lines.push('');
+    }
     lines.push(r.snippet || '暂无摘要');
     lines.push('');
+    if (r.content) {
+      // 正文放在引用块中，避免其中的标题打乱结果列表的层级
+      lines.push('**正文:**');
+      lines.push('');
+      lines.push(r.content.split('\n').map(line => '> ' + line).join('\n'));
+      lines.push('');
+    }
+  }
+
+  if (response.cursor) {
+    lines.push('---');
+    lines.push('');
+    lines.push('下一页 cursor: `' + response.cursor + '`');
   }
   
   return lines.join('\n');
 }
 
-export function validateSearchParams(params: any): any {
-  const query = params.query;
-  if (!query || String(query).trim().length === 0) {
-    return { valid: false, error: '查询不能为空' };
+export function formatEngineList(descriptors: readonly EngineDescriptor[], env: Env): string {
+  const lines: string[] = [];
+  lines.push('已注册的搜索引擎');
+  lines.push('============================================================');
+
+  for (const d of descriptors) {
+    const configured = isEngineConfigured(d, env);
+    const supports = Object.entries(d.supports)
+      .filter(([, enabled]) => enabled === true)
+      .map(([feature]) => feature);
+
+    lines.push('');
+    lines.push(d.id + ' (' + d.displayName + ') | ' + (configured ? '可用' : '未配置') + ' | ' + d.costTier);
+    lines.push('    ' + d.description);
+    if (d.aliases.length > 0) {
+      lines.push('    别名: ' + d.aliases.join(', '));
+    }
+    if (d.requiredEnv.length > 0) {
+      lines.push('    需要: ' + d.requiredEnv.join(', '));
+    }
+    lines.push('    支持: ' + (supports.length > 0 ? supports.join(', ') : '无'));
+    lines.push('    类别: ' + d.supports.verticals.join(', '));
   }
+
+  return lines.join('\n');
+}
+
+/**
+ * fetch_url 结果，每个页面一节
+ */
+export function formatPages(pages: PageContent[]): string {
+  const sections = pages.map(page => {
+    const lines: string[] = [];
+    lines.push('# ' + (page.title || page.url));
+    lines.push('');
+    lines.push('URL: ' + (page.finalUrl || page.url));
+    if (page.byline) lines.push('作者: ' + page.byline);
+    if (page.publishedDate) lines.push('日期: ' + page.publishedDate.slice(0, 10));
+    if (page.siteName) lines.push('网站: ' + page.siteName);
+    lines.push('');
+    if (page.error) {
+      lines.push('> 读取失败: ' + page.error);
+    } else {
+      lines.push(page.content || '未提取到正文');
+      if (page.truncated) {
+        lines.push('');
+        lines.push('> 正文已截断（' + page.content.length + '/' + page.length + ' 字符）');
+      }
+    }
+    return lines.join('\n');
+  });
+  return sections.join('\n\n---\n\n');
+}
+
+const DATE_RANGES = ['day', 'week', 'month', 'year', 'all'] as const;
+const OUTPUT_FORMATS = ['text', 'json', 'markdown'] as const;
+const CACHE_MODES = ['use', 'bypass', 'refresh'] as const;
+const SORT_OPTIONS = ['relevance', 'date'] as const;
+const CONTENT_MODES = ['none', 'snippet', 'full'] as const;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const REGION_PATTERN = /^[a-z]{2}$/i;
+const DEFAULT_MAX_RESULTS = 20;
+const PAGE_READERS = ['auto', 'builtin', 'jina'] as const;
+const PAGE_FORMATS = ['markdown', 'json'] as const;
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+export function validateSearchParams(params: unknown, env: Env): ValidationResult {
+  const input = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>;
+  const errors: ValidationIssue[] = [];
+  const warnings: string[] = [];
+
+  // query
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  if (typeof input.query !== 'string' && input.query !== undefined) {
+    errors.push({ field: 'query', message: '查询必须是字符串' });
+  } else if (query.length === 0) {
+    errors.push({ field: 'query', message: '查询不能为空' });
+  }
+
+  // maxResults：以部署配置的 MAX_RESULTS 为上限
+  const envLimit = parseInt(env.MAX_RESULTS || '');
+  const limit = envLimit > 0 ? Math.min(envLimit, MAX_RESULTS_LIMIT) : MAX_RESULTS_LIMIT;
+  let maxResults = Math.min(DEFAULT_MAX_RESULTS, limit);
+  if (input.maxResults !== undefined && input.maxResults !== null) {
+    const n = typeof input.maxResults === 'string' ? Number(input.maxResults) : input.maxResults;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1) {
+      errors.push({ field: 'maxResults', message: 'maxResults 必须是正整数' });
+    } else if (n > limit) {
+      warnings.push('maxResults ' + n + ' 超过上限，已调整为 ' + limit);
+      maxResults = limit;
+    } else {
+      maxResults = n;
+    }
+  }
+
+  // engines：兼容逗号分隔的字符串，解析别名并剔除未知/未配置的引擎
+  const engines: string[] = [];
+  let rawEngines: unknown[] = [];
+  if (typeof input.engines === 'string') {
+    rawEngines = input.engines.split(',').filter(n => n.trim().length > 0);
+  } else if (Array.isArray(input.engines)) {
+    rawEngines = input.engines;
+  } else if (input.engines !== undefined && input.engines !== null) {
+    errors.push({ field: 'engines', message: 'engines 必须是字符串数组' });
+  }
+  for (const raw of rawEngines) {
+    if (typeof raw !== 'string') {
+      errors.push({ field: 'engines', message: 'engines 只能包含字符串' });
+      continue;
+    }
+    const descriptor = resolveEngine(raw);
+    if (!descriptor) {
+      warnings.push('未知的搜索引擎: ' + raw);
+    } else if (!isEngineConfigured(descriptor, env)) {
+      warnings.push('搜索引擎 ' + descriptor.id + ' 未配置 (需要 ' + descriptor.requiredEnv.join(', ') + ')');
+    } else if (!engines.includes(descriptor.id)) {
+      engines.push(descriptor.id);
+    }
+  }
+  if (rawEngines.length > 0 && engines.length === 0 && errors.length === 0) {
+    warnings.push('没有可用的搜索引擎，已回退到 ' + DEFAULT_ENGINE_ID);
+  }
+
+  // vertical：提示不支持该类别的引擎
+  if (input.vertical !== undefined) {
+    if (!isOneOf(VERTICALS, input.vertical)) {
+      errors.push({ field: 'vertical', message: 'vertical 必须是 ' + VERTICALS.join(', ') + ' 之一' });
+    } else {
+      const vertical = input.vertical;
+      const unsupported = (engines.length > 0 ? engines : [DEFAULT_ENGINE_ID])
+        .filter(id => !supportsVertical(resolveEngine(id)!, vertical));
+      if (unsupported.length > 0) {
+        warnings.push('以下引擎不支持 vertical=' + vertical + '，将被跳过: ' + unsupported.join(', '));
+      }
+    }
+  }
+
+  // dateRange
+  if (input.dateRange !== undefined && !isOneOf(DATE_RANGES, input.dateRange)) {
+    errors.push({ field: 'dateRange', message: 'dateRange 必须是 ' + DATE_RANGES.join(', ') + ' 之一' });
+  }
+
+  // language
+  let language: string | undefined;
+  if (input.language !== undefined) {
+    if (typeof input.language !== 'string' || !LANGUAGE_PATTERN.test(input.language.trim())) {
+      errors.push({ field: 'language', message: 'language 必须是语言代码，如 zh-CN、en' });
+    } else {
+      language = input.language.trim();
+    }
+  }
+
+  // from / to：统一为 ISO-8601，仅日期的 to 包含当天
+  const dates: { from?: string; to?: string } = {};
+  for (const field of ['from', 'to'] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    const time = typeof value === 'string' ? Date.parse(value.trim()) : NaN;
+    if (Number.isNaN(time)) {
+      errors.push({ field, message: field + ' 必须是 ISO-8601 日期，如 2024-01-01' });
+    } else {
+      const dateOnly = field === 'to' && /^\d{4}-\d{2}-\d{2}$/.test((value as string).trim());
+      dates[field] = new Date(dateOnly ? time + 24 * 60 * 60 * 1000 - 1 : time).toISOString();
+    }
+  }
+  if (dates.from && dates.to && dates.from > dates.to) {
+    errors.push({ field: 'from', message: 'from 不能晚于 to' });
+  }
+  if ((dates.from || dates.to) && input.dateRange !== undefined && input.dateRange !== 'all') {
+    warnings.push('已指定 from/to，忽略 dateRange');
+  }
+
+  // sortBy
+  if (input.sortBy !== undefined && !isOneOf(SORT_OPTIONS, input.sortBy)) {
+    errors.push({ field: 'sortBy', message: 'sortBy 必须是 ' + SORT_OPTIONS.join(', ') + ' 之一' });
+  }
+
+  // region
+  let region: string | undefined;
+  if (input.region !== undefined) {
+    if (typeof input.region !== 'string' || !REGION_PATTERN.test(input.region.trim())) {
+      errors.push({ field: 'region', message: 'region 必须是两位国家/地区代码，如 CN、US' });
+    } else {
+      region = input.region.trim().toUpperCase();
+    }
+  }
+
+  // safeSearch
+  if (input.safeSearch !== undefined && typeof input.safeSearch !== 'boolean') {
+    errors.push({ field: 'safeSearch', message: 'safeSearch 必须是布尔值' });
+  }
+
+  // cursor：须能解码且与 query 一致
+  if (input.cursor !== undefined) {
+    const cursor = typeof input.cursor === 'string' ? decodeCursor(input.cursor) : undefined;
+    if (!cursor) {
+      errors.push({ field: 'cursor', message: 'cursor 无效' });
+    } else if (cursor.query !== query) {
+      errors.push({ field: 'cursor', message: 'cursor 与 query 不匹配' });
+    }
+  }
+
+  // includeContent / contentMaxChars
+  if (input.includeContent !== undefined && !isOneOf(CONTENT_MODES, input.includeContent)) {
+    errors.push({ field: 'includeContent', message: 'includeContent 必须是 ' + CONTENT_MODES.join(', ') + ' 之一' });
+  }
+  let contentMaxChars: number | undefined;
+  if (input.contentMaxChars !== undefined) {
+    const n = input.contentMaxChars;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < MIN_CONTENT_CHARS || n > MAX_CONTENT_CHARS) {
+      errors.push({ field: 'contentMaxChars', message: 'contentMaxChars 必须是 ' + MIN_CONTENT_CHARS + '-' + MAX_CONTENT_CHARS + ' 之间的整数' });
+    } else if (!input.includeContent || input.includeContent === 'none') {
+      warnings.push('未启用 includeContent，忽略 contentMaxChars');
+    } else {
+      contentMaxChars = n;
+    }
+  }
+  if (input.includeContent === 'snippet' || input.includeContent === 'full') {
+    contentMaxChars = contentMaxChars ?? DEFAULT_CONTENT_CHARS;
+  }
+
+  // includeAnswers
+  if (input.includeAnswers !== undefined && typeof input.includeAnswers !== 'boolean') {
+    errors.push({ field: 'includeAnswers', message: 'includeAnswers 必须是布尔值' });
+  }
+
+  // outputFormat
+  if (input.outputFormat !== undefined && !isOneOf(OUTPUT_FORMATS, input.outputFormat)) {
+    errors.push({ field: 'outputFormat', message: 'outputFormat 必须是 ' + OUTPUT_FORMATS.join(', ') + ' 之一' });
+  }
+
+  // deadlineMs
+  if (input.deadlineMs !== undefined) {
+    const n = input.deadlineMs;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < MIN_DEADLINE_MS || n > MAX_DEADLINE_MS) {
+      errors.push({ field: 'deadlineMs', message: 'deadlineMs 必须是 ' + MIN_DEADLINE_MS + '-' + MAX_DEADLINE_MS + ' 之间的整数' });
+    }
+  }
+
+  // minSuccessfulEngines
+  if (input.minSuccessfulEngines !== undefined) {
+    const n = input.minSuccessfulEngines;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1) {
+      errors.push({ field: 'minSuccessfulEngines', message: 'minSuccessfulEngines 必须是正整数' });
+    }
+  }
+
+  // hedge
+  if (input.hedge !== undefined && typeof input.hedge !== 'boolean') {
+    errors.push({ field: 'hedge', message: 'hedge 必须是布尔值' });
+  }
+
+  // cache
+  if (input.cache !== undefined && !isOneOf(CACHE_MODES, input.cache)) {
+    errors.push({ field: 'cache', message: 'cache 必须是 ' + CACHE_MODES.join(', ') + ' 之一' });
+  }
+
+  // includeDomains / excludeDomains
+  const domainLists: Record<string, string[] | undefined> = {};
+  for (const field of ['includeDomains', 'excludeDomains']) {
+    const value = input[field];
+    if (value === undefined) continue;
+    const list = typeof value === 'string' ? value.split(',') : value;
+    if (!Array.isArray(list) || !list.every(d => typeof d === 'string')) {
+      errors.push({ field, message: field + ' 必须是域名数组' });
+    } else {
+      domainLists[field] = list.map(d => normalizeDomain(d.trim())).filter(Boolean);
+    }
+  }
+
+  // boostDomains
+  let boostDomains: Record<string, number> | undefined;
+  if (input.boostDomains !== undefined) {
+    if (!input.boostDomains || typeof input.boostDomains !== 'object' || Array.isArray(input.boostDomains)) {
+      errors.push({ field: 'boostDomains', message: 'boostDomains 必须是 域名 -> 倍数 的对象' });
+    } else {
+      boostDomains = {};
+      for (const [domain, weight] of Object.entries(input.boostDomains)) {
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+          errors.push({ field: 'boostDomains', message: domain + ' 的倍数必须是非负数' });
+        } else {
+          boostDomains[normalizeDomain(domain.trim())] = weight;
+        }
+      }
+    }
+  }
+
+  // maxPerDomain
+  if (input.maxPerDomain !== undefined) {
+    const n = input.maxPerDomain;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1) {
+      errors.push({ field: 'maxPerDomain', message: 'maxPerDomain 必须是正整数' });
+    }
+  }
+
+  // similarityThreshold
+  if (input.similarityThreshold !== undefined) {
+    const n = input.similarityThreshold;
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < 0 || n > 1) {
+      errors.push({ field: 'similarityThreshold', message: 'similarityThreshold 必须是 0-1 之间的数字' });
+    }
+  }
+
+  // ranking
+  if (input.ranking !== undefined && !isOneOf(RANKING_STRATEGIES, input.ranking)) {
+    errors.push({ field: 'ranking', message: 'ranking 必须是 ' + RANKING_STRATEGIES.join(', ') + ' 之一' });
+  }
+
+  // engineWeights：键解析为引擎 id
+  let engineWeights: Record<string, number> | undefined;
+  if (input.engineWeights !== undefined) {
+    if (!input.engineWeights || typeof input.engineWeights !== 'object' || Array.isArray(input.engineWeights)) {
+      errors.push({ field: 'engineWeights', message: 'engineWeights 必须是 引擎 -> 权重 的对象' });
+    } else {
+      engineWeights = {};
+      for (const [name, weight] of Object.entries(input.engineWeights)) {
+        const descriptor = resolveEngine(name);
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+          errors.push({ field: 'engineWeights', message: name + ' 的权重必须是非负数' });
+        } else if (!descriptor) {
+          warnings.push('engineWeights 中的未知搜索引擎: ' + name);
+        } else {
+          engineWeights[descriptor.id] = weight;
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
   return {
     valid: true,
     sanitized: {
-      query: String(query).trim(),
-      maxResults: params.maxResults || 20,
-      engines: params.engines || [],
-      outputFormat: params.outputFormat || 'text'
+      query,
+      maxResults,
+      engines,
+      vertical: input.vertical as SearchParams['vertical'],
+      dateRange: input.dateRange as SearchParams['dateRange'],
+      from: dates.from,
+      to: dates.to,
+      sortBy: input.sortBy as SearchParams['sortBy'],
+      language,
+      region,
+      safeSearch: input.safeSearch as boolean | undefined,
+      cursor: input.cursor as string | undefined,
+      includeContent: input.includeContent as SearchParams['includeContent'],
+      contentMaxChars,
+      includeAnswers: input.includeAnswers as boolean | undefined,
+      outputFormat: (input.outputFormat as SearchParams['outputFormat']) || 'text',
+      deadlineMs: input.deadlineMs as number | undefined,
+      minSuccessfulEngines: input.minSuccessfulEngines as number | undefined,
+      hedge: input.hedge as boolean | undefined,
+      cache: input.cache as SearchParams['cache'],
+      includeDomains: domainLists.includeDomains,
+      excludeDomains: domainLists.excludeDomains,
+      boostDomains,
+      maxPerDomain: input.maxPerDomain as number | undefined,
+      similarityThreshold: input.similarityThreshold as number | undefined,
+      ranking: input.ranking as SearchParams['ranking'],
+      engineWeights
+    },
+    warnings
+  };
+}
+
+export function validateFetchParams(params: unknown, env: Env): ValidationResult<FetchParams> {
+  const input = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>;
+  const errors: ValidationIssue[] = [];
+  const warnings: string[] = [];
+
+  // urls：兼容单个字符串和 url 字段，只允许 http(s)
+  const raw = input.urls ?? input.url;
+  const list = typeof raw === 'string' ? [raw] : raw;
+  const urls: string[] = [];
+  if (!Array.isArray(list) || list.length === 0) {
+    errors.push({ field: 'urls', message: 'urls 必须是网址或网址数组' });
+  } else if (list.length > MAX_FETCH_URLS) {
+    errors.push({ field: 'urls', message: '一次最多读取 ' + MAX_FETCH_URLS + ' 个网址' });
+  } else {
+    for (const value of list) {
+      let url: URL | undefined;
+      try {
+        url = typeof value === 'string' ? new URL(value.trim()) : undefined;
+      } catch {
+        url = undefined;
+      }
+      if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+        errors.push({ field: 'urls', message: '无效的网址: ' + String(value) });
+      } else if (!urls.includes(url.toString())) {
+        urls.push(url.toString());
+      }
+    }
+  }
+
+  // maxChars
+  let maxChars = DEFAULT_FETCH_CHARS;
+  if (input.maxChars !== undefined) {
+    const n = input.maxChars;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < MIN_FETCH_CHARS || n > MAX_FETCH_CHARS) {
+      errors.push({ field: 'maxChars', message: 'maxChars 必须是 ' + MIN_FETCH_CHARS + '-' + MAX_FETCH_CHARS + ' 之间的整数' });
+    } else {
+      maxChars = n;
     }
+  }
+
+  // reader：jina 需要 JINA_API_KEY
+  if (input.reader !== undefined && !isOneOf(PAGE_READERS, input.reader)) {
+    errors.push({ field: 'reader', message: 'reader 必须是 ' + PAGE_READERS.join(', ') + ' 之一' });
+  } else if (input.reader === 'jina' && !env.JINA_API_KEY) {
+    errors.push({ field: 'reader', message: 'reader=jina 需要配置 JINA_API_KEY' });
+  }
+
+  // outputFormat
+  if (input.outputFormat !== undefined && !isOneOf(PAGE_FORMATS, input.outputFormat)) {
+    errors.push({ field: 'outputFormat', message: 'outputFormat 必须是 ' + PAGE_FORMATS.join(', ') + ' 之一' });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    sanitized: {
+      urls,
+      maxChars,
+      reader: (input.reader as FetchParams['reader']) || 'auto',
+      outputFormat: (input.outputFormat as FetchParams['outputFormat']) || 'markdown'
+    },
+    warnings
   };
 }